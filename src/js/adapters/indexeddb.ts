@@ -0,0 +1,162 @@
+import { CacheResourceBackendAdapter } from "../types";
+import { createLocalStorage } from "./localstorage";
+import { CacheEntry, CacheMigration, CacheStorage, createStorageCache, migrateEntry, migrateMutation } from "./storage";
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionToPromise = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+function createIndexedDbStorage(factory: IDBFactory, name: string, version: number, migrate: CacheMigration | undefined): CacheStorage {
+    let database: Promise<IDBDatabase> | null = null;
+    let position = Date.now();
+
+    const open = () => {
+        if (database === null) {
+            database = new Promise((resolve, reject) => {
+                const request = factory.open(name, version);
+                request.onupgradeneeded = event => {
+                    const db = request.result;
+                    for (const storeName of ["entries", "outbox"]) {
+                        if (!db.objectStoreNames.contains(storeName)) {
+                            db.createObjectStore(storeName, {keyPath: ["scope", "key"]}).createIndex("scope", "scope");
+                        }
+                    }
+                    if (!db.objectStoreNames.contains("cursors")) {
+                        db.createObjectStore("cursors", {keyPath: "scope"});
+                    }
+                    if (event.oldVersion > 0) {
+                        const transaction = request.transaction!;
+                        // Changes since the cursor refer to the old schema
+                        transaction.objectStore("cursors").clear();
+                        for (const storeName of ["entries", "outbox"]) {
+                            const store = transaction.objectStore(storeName);
+                            if (migrate === undefined) {
+                                // Stored items can't be used with the new schema
+                                store.clear();
+                            }
+                            else {
+                                const cursorRequest = store.openCursor();
+                                cursorRequest.onsuccess = () => {
+                                    const cursor = cursorRequest.result;
+                                    if (cursor !== null) {
+                                        const {value} = cursor;
+                                        cursor.update(storeName === "entries" ? {
+                                            ...value,
+                                            entry: migrateEntry(value.entry, migrate, event.oldVersion)
+                                        } : {
+                                            ...value,
+                                            mutation: migrateMutation(value.mutation, migrate, event.oldVersion)
+                                        });
+                                        cursor.continue();
+                                    }
+                                }
+                            }
+                        }
+                    }
+                }
+                request.onsuccess = () => {
+                    const db = request.result;
+                    // Another tab upgraded the schema. Reopen on next access
+                    db.onversionchange = () => {
+                        db.close();
+                        database = null;
+                    }
+                    resolve(db);
+                }
+                request.onerror = () => {
+                    database = null;
+                    reject(request.error);
+                }
+            });
+        }
+        return database;
+    }
+
+    const getAll = async (storeName: string, scope: string) => {
+        const db = await open();
+        return await requestToPromise(db.transaction(storeName).objectStore(storeName).index("scope").getAll(scope));
+    }
+
+    return {
+        getEntries: async scope => (await getAll("entries", scope)).map(({entry}) => entry),
+        modifyEntries: async (scope, ids, modify) => {
+            const db = await open();
+            const transaction = db.transaction("entries", "readwrite");
+            const store = transaction.objectStore("entries");
+            const entries: (CacheEntry | undefined)[] = new Array(ids.length);
+            let remaining = ids.length;
+            ids.forEach((id, index) => {
+                const request = store.get([scope, id]);
+                request.onsuccess = () => {
+                    entries[index] = request.result?.entry;
+                    if (--remaining === 0) {
+                        // Write within the same transaction to make the modification atomic
+                        modify(entries).forEach((entry, index) => {
+                            if (entry === null) {
+                                store.delete([scope, ids[index]]);
+                            }
+                            else if (entry !== undefined) {
+                                store.put({scope, key: ids[index], entry});
+                            }
+                        });
+                    }
+                }
+            });
+            await transactionToPromise(transaction);
+        },
+        getOutbox: async scope => (await getAll("outbox", scope)).sort((a, b) => a.position - b.position).map(({mutation}) => mutation),
+        putOutbox: async (scope, mutation) => {
+            const db = await open();
+            const transaction = db.transaction("outbox", "readwrite");
+            const store = transaction.objectStore("outbox");
+            const request = store.get([scope, mutation.key]);
+            request.onsuccess = () => {
+                store.put({scope, key: mutation.key, position: request.result?.position ?? position++, mutation});
+            }
+            await transactionToPromise(transaction);
+        },
+        removeOutbox: async (scope, key) => {
+            const db = await open();
+            const transaction = db.transaction("outbox", "readwrite");
+            transaction.objectStore("outbox").delete([scope, key]);
+            await transactionToPromise(transaction);
+        },
+        getCursor: async scope => {
+            const db = await open();
+            return (await requestToPromise(db.transaction("cursors").objectStore("cursors").get(scope)))?.cursor ?? null;
+        },
+        putCursor: async (scope, cursor) => {
+            const db = await open();
+            const transaction = db.transaction("cursors", "readwrite");
+            transaction.objectStore("cursors").put({scope, cursor});
+            await transactionToPromise(transaction);
+        }
+    }
+}
+
+/**
+ * Creates a cache adapter storing the local version and the last synced remote version of every item in IndexedDB.
+ * Falls back to localStorage if IndexedDB is not available
+ * @param name The name of the database. Defaults to 'react-resource-hook'
+ * @param version The schema version of the stored items. Must be increased whenever the structure of the items changes
+ * @param migrate Migrates stored items to the current schema version. Without it, the cache is cleared when the version changes
+ * @param indexedDB The IDBFactory to be used. Defaults to the global indexedDB
+ */
+export function createIndexedDbCache({name = "react-resource-hook", version = 1, migrate, indexedDB: factory = typeof indexedDB !== "undefined" ? indexedDB : undefined}: {
+    name?: string,
+    version?: number,
+    migrate?: CacheMigration,
+    indexedDB?: IDBFactory
+} = {}): CacheResourceBackendAdapter<{}, {}, undefined> {
+    if (factory === undefined) {
+        return createStorageCache(createLocalStorage(localStorage, name, version, migrate));
+    }
+    return createStorageCache(createIndexedDbStorage(factory, name, version, migrate));
+}
@@ -0,0 +1,90 @@
+import { CacheResourceBackendAdapter, Mutation, SyncCursor } from "../types";
+import { CacheEntry, CacheMigration, CacheStorage, createStorageCache, migrateEntry, migrateMutation } from "./storage";
+
+interface StoredScope {
+    version: number,
+    entries: CacheEntry[],
+    outbox: Mutation<any>[],
+    cursor?: SyncCursor | null
+}
+
+export function createLocalStorage(storage: Storage, prefix: string, version: number, migrate: CacheMigration | undefined): CacheStorage {
+    const key = (scope: string) => `${prefix}:${scope}`;
+
+    const read = (scope: string): StoredScope => {
+        const value = storage.getItem(key(scope));
+        const stored: StoredScope | null = value === null ? null : JSON.parse(value);
+        if (stored === null || (stored.version !== version && migrate === undefined)) {
+            // Stored items can't be used with the current schema
+            return {version, entries: [], outbox: []};
+        }
+        if (stored.version !== version) {
+            return {
+                version,
+                entries: stored.entries.map(entry => migrateEntry(entry, migrate!, stored.version)),
+                outbox: stored.outbox.map(mutation => migrateMutation(mutation, migrate!, stored.version))
+            }
+        }
+        return stored;
+    }
+
+    const write = (scope: string, stored: StoredScope) => {
+        if (stored.entries.length === 0 && stored.outbox.length === 0 && (stored.cursor ?? null) === null) {
+            storage.removeItem(key(scope));
+        }
+        else {
+            storage.setItem(key(scope), JSON.stringify(stored));
+        }
+    }
+
+    return {
+        getEntries: async scope => read(scope).entries,
+        modifyEntries: async (scope, ids, modify) => {
+            const stored = read(scope);
+            const entries = new Map(stored.entries.map(entry => [entry.id, entry]));
+            modify(ids.map(id => entries.get(id))).forEach((entry, index) => {
+                if (entry === null) {
+                    entries.delete(ids[index]);
+                }
+                else if (entry !== undefined) {
+                    entries.set(ids[index], entry);
+                }
+            });
+            write(scope, {...stored, entries: [...entries.values()]});
+        },
+        getOutbox: async scope => read(scope).outbox,
+        putOutbox: async (scope, mutation) => {
+            const stored = read(scope);
+            const index = stored.outbox.findIndex(({key}) => key === mutation.key);
+            write(scope, {
+                ...stored,
+                outbox: index === -1 ? [...stored.outbox, mutation] : stored.outbox.map((item, i) => i === index ? mutation : item)
+            });
+        },
+        removeOutbox: async (scope, key) => {
+            const stored = read(scope);
+            write(scope, {...stored, outbox: stored.outbox.filter(mutation => mutation.key !== key)});
+        },
+        getCursor: async scope => read(scope).cursor ?? null,
+        putCursor: async (scope, cursor) => {
+            write(scope, {...read(scope), cursor});
+        }
+    }
+}
+
+/**
+ * Creates a cache adapter storing the local version and the last synced remote version of every item in localStorage.
+ * All items of a resource are read and written at once, so this is only suitable for small resources
+ * @param prefix Prefix of the keys used in the storage. Defaults to 'react-resource-hook'
+ * @param version The schema version of the stored items. Must be increased whenever the structure of the items changes
+ * @param migrate Migrates stored items to the current schema version. Without it, stored items are discarded when the version changes
+ * @param storage The storage to be used. Defaults to localStorage
+ */
+export function createLocalStorageCache({prefix = "react-resource-hook", version = 1, migrate, storage = localStorage}: {
+    prefix?: string,
+    version?: number,
+    migrate?: CacheMigration,
+    storage?: Storage
+} = {}): CacheResourceBackendAdapter<{}, {}, undefined> {
+    return createStorageCache(createLocalStorage(storage, prefix, version, migrate));
+}
@@ -0,0 +1,420 @@
+import { useEffect, useMemo } from "react";
+import { DeepPartial } from "ts-essentials";
+import { CursorExpiredError, OfflineError } from "../errors";
+import { ActionHookReturn, CacheActionHookReturn, CacheResourceBackendAdapter, Delta, Mutation, PageRequest, Params, Resource, ResourceBackendAdapter, ResourceQueryResponse, ResourceResponse, SyncCursor } from "../types";
+import { createTemporaryId, matchesParams } from "../util";
+
+type Event = "created" | "updated" | "destroyed";
+
+export type MemoryQueryHandler = (items: Resource[], data: any, params: Params | undefined) => ResourceQueryResponse<any>;
+
+export interface MemoryBackend {
+    adapter: ResourceBackendAdapter<{}, {}, undefined>,
+    /**
+     * Applies a change to the store as if it had been made by another client and dispatches the respective event to all subscribed hooks
+     * @param resource The name of the resource
+     * @param event The event to be emitted
+     * @param payload The created item, the (partial) updated item including its id or the id of the destroyed item
+     */
+    emit: (resource: string, event: Event, payload: any) => void,
+    /**
+     * Toggles offline mode. While offline, all actions throw an OfflineError
+     */
+    setOffline: (offline: boolean) => void,
+    /**
+     * Sets the time in ms every action takes to complete
+     */
+    setLatency: (latency: number) => void,
+    /**
+     * Makes the next actions throw the given error
+     * @param times Number of actions that should fail. Defaults to 1
+     */
+    failNext: (error: Error, times?: number) => void,
+    /**
+     * Returns all items currently stored for the given resource
+     */
+    getItems: <T extends Resource>(resource: string) => T[]
+}
+
+export interface MemoryCache {
+    adapter: CacheResourceBackendAdapter<{}, {}, undefined>,
+    /**
+     * Returns the cache entries of the given resource and params, including their remote snapshot if they have not been synced yet
+     */
+    getEntries: <T extends Resource>(resource: string, params?: Params) => {id: T["id"], local: T | null, remote?: T | null}[],
+    clear: () => void
+}
+
+const paginate = (items: Resource[], page: PageRequest) => {
+    const offset = page.type === "page" ? (page.page - 1) * page.limit : page.type === "offset" ? page.offset : Number(page.cursor ?? 0);
+    const limit = page.limit ?? items.length;
+    return {
+        data: items.slice(offset, offset + limit),
+        meta: {
+            total: items.length,
+            next: offset + limit < items.length ? offset + limit : null
+        }
+    }
+}
+
+/**
+ * Creates a backend adapter storing all items in memory. Intended for tests and prototyping
+ * @param seed Initial items per resource
+ * @param latency Time in ms every action takes to complete. Defaults to 0
+ * @param broadcast Whether to dispatch events for changes made using the adapters own actions. Defaults to false
+ * @param queries Handlers for the actions passed to 'query'
+ * @param changeLimit Number of changes per resource kept for incremental refreshes. Older cursors expire. Defaults to 1000
+ */
+export function createMemoryBackend({seed = {}, latency: initialLatency = 0, broadcast = false, queries = {}, changeLimit = 1000}: {
+    seed?: {[resource: string]: Resource[]},
+    latency?: number,
+    broadcast?: boolean,
+    queries?: {[action: string]: MemoryQueryHandler},
+    changeLimit?: number
+} = {}): MemoryBackend {
+    const items = new Map(Object.entries(seed).map(([resource, items]) => [resource, items.map(item => ({...item}))]));
+    const nextIds = new Map<string, number>();
+    const subscribers = new Set<{resource: string, event: Event, params: Params | undefined, handler: (payload: any) => void}>();
+    const offlineListeners = new Set<(offline: boolean) => void>();
+    const failures: Error[] = [];
+    const changes = new Map<string, {sequence: number, delta: Delta<any>}[]>();
+    const expired = new Map<string, number>();
+    let sequence = 0;
+    let latency = initialLatency;
+    let offline = false;
+
+    const getItems = (resource: string) => {
+        if (!items.has(resource)) {
+            items.set(resource, []);
+        }
+        return items.get(resource)!;
+    }
+
+    const nextId = (resource: string) => {
+        const id = nextIds.get(resource) ?? Math.max(0, ...getItems(resource).map(item => typeof item.id === "number" ? item.id : 0)) + 1;
+        nextIds.set(resource, id + 1);
+        return id;
+    }
+
+    const dispatch = (resource: string, event: Event, payload: any) => {
+        for (const subscriber of subscribers) {
+            if (subscriber.resource === resource && subscriber.event === event && (event === "destroyed" || matchesParams(payload, subscriber.params))) {
+                subscriber.handler(payload);
+            }
+        }
+    }
+
+    const record = (resource: string, delta: Delta<any>) => {
+        if (!changes.has(resource)) {
+            changes.set(resource, []);
+        }
+        const log = changes.get(resource)!;
+        log.push({sequence: ++sequence, delta});
+        if (log.length > changeLimit) {
+            expired.set(resource, log.shift()!.sequence);
+        }
+    }
+
+    const getChanges = (resource: string, since: SyncCursor, params: Params | undefined) => {
+        if (Number(since) < (expired.get(resource) ?? 0)) {
+            throw new CursorExpiredError(`Changes since '${since}' are no longer available`);
+        }
+        return (changes.get(resource) ?? []).filter(change => change.sequence > Number(since)).flatMap(({delta}): Delta<any>[] => {
+            switch (delta.action) {
+                case "store":
+                    return matchesParams(delta.resource, params) ? [delta] : [];
+                case "update":
+                    // Items that no longer match the params are removed from the list
+                    return matchesParams(delta.update, params) ? [delta] : [{action: "destroy", id: delta.id}];
+                default:
+                    return [delta];
+            }
+        });
+    }
+
+    const apply = (resource: string, event: Event, payload: any) => {
+        const list = getItems(resource);
+        switch (event) {
+            case "created": {
+                const item = {...payload, id: payload.id ?? nextId(resource)};
+                list.push(item);
+                record(resource, {action: "store", id: item.id, resource: item});
+                return item;
+            }
+            case "updated": {
+                const index = list.findIndex(item => item.id == payload.id);
+                if (index === -1) {
+                    throw new Error(`Item '${payload.id}' of resource '${resource}' not found`);
+                }
+                const item = list[index] = {...list[index], ...payload};
+                record(resource, {action: "update", id: item.id, update: item});
+                return item;
+            }
+            case "destroyed": {
+                const index = list.findIndex(item => item.id == payload);
+                if (index === -1) {
+                    throw new Error(`Item '${payload}' of resource '${resource}' not found`);
+                }
+                record(resource, {action: "destroy", id: list[index].id});
+                list.splice(index, 1);
+                return payload;
+            }
+        }
+    }
+
+    const run = async <R>(request: () => R, signal?: AbortSignal) => {
+        if (latency > 0) {
+            await new Promise<void>((resolve, reject) => {
+                const timeout = setTimeout(resolve, latency);
+                signal?.addEventListener("abort", () => {
+                    clearTimeout(timeout);
+                    reject(new DOMException("Aborted", "AbortError"));
+                });
+            });
+        }
+        if (offline) {
+            throw new OfflineError(new Error("Network request failed"));
+        }
+        const failure = failures.shift();
+        if (failure !== undefined) {
+            throw failure;
+        }
+        return request();
+    }
+
+    const mutate = (resource: string, event: Event, payload: any) => {
+        const result = apply(resource, event, payload);
+        if (broadcast) {
+            dispatch(resource, event, result);
+        }
+        return result;
+    }
+
+    return {
+        adapter: name => ({
+            actionHook: <T extends Resource>(_config: {}, params?: Params) => {
+                const paramsKey = JSON.stringify(params ?? null);
+                return useMemo<ActionHookReturn<undefined, T>>(() => ({
+                    store: resource => run(() => ({...mutate(name, "created", {...resource})})),
+                    batchStore: resources => run(() => resources.map(resource => ({...mutate(name, "created", {...resource})}))),
+                    update: (id, resource) => run(() => ({...mutate(name, "updated", {...resource, id})})),
+                    batchUpdate: resources => run(() => resources.map(resource => ({...mutate(name, "updated", {...resource})}))),
+                    destroy: id => run(() => {
+                        mutate(name, "destroyed", id);
+                    }),
+                    batchDestroy: ids => run(() => {
+                        for (const id of ids) {
+                            mutate(name, "destroyed", id);
+                        }
+                    }),
+                    refresh: <U = null>(id?: Resource["id"], _config?: undefined, signal?: AbortSignal, page?: PageRequest, since?: SyncCursor) => run(() => {
+                        const list = getItems(name);
+                        if (since !== undefined && id === undefined && page === undefined) {
+                            return {data: null, meta: null, error: null, deltas: getChanges(name, since, params), cursor: sequence} as ResourceResponse<T, U>;
+                        }
+                        if (id !== undefined) {
+                            const item = list.find(item => item.id == id);
+                            if (item === undefined) {
+                                throw new Error(`Item '${id}' of resource '${name}' not found`);
+                            }
+                            return {data: {...item}, meta: null, error: null} as ResourceResponse<T, U>;
+                        }
+                        const filtered = list.filter(item => matchesParams(item, params)).map(item => ({...item}));
+                        if (page !== undefined) {
+                            const {data, meta} = paginate(filtered, page);
+                            return {data, meta, error: null} as ResourceResponse<T, any>;
+                        }
+                        return {data: filtered, meta: null, error: null, cursor: sequence} as ResourceResponse<T, U>;
+                    }, signal),
+                    query: (action, data, queryParams) => run(() => {
+                        const handler = queries[action];
+                        if (handler === undefined) {
+                            throw new Error(`No handler registered for query '${action}'`);
+                        }
+                        return handler(getItems(name), data, queryParams ?? params) as ResourceQueryResponse<T>;
+                    }),
+                    addOfflineListener: listener => {
+                        offlineListeners.add(listener);
+                        return () => {
+                            offlineListeners.delete(listener);
+                        }
+                    }
+                }), [paramsKey]);
+            },
+            eventHook: (params, event, handler, enabled, dependencies = []) => {
+                const paramsKey = JSON.stringify(params ?? null);
+                useEffect(() => {
+                    if (enabled) {
+                        const subscriber = {resource: name, event, params, handler: handler as (payload: any) => void};
+                        subscribers.add(subscriber);
+                        return () => {
+                            subscribers.delete(subscriber);
+                        }
+                    }
+                }, [paramsKey, event, enabled, ...dependencies]);
+            }
+        }),
+        emit: (resource, event, payload) => {
+            dispatch(resource, event, apply(resource, event, payload));
+        },
+        setOffline: value => {
+            if (offline !== value) {
+                offline = value;
+                for (const listener of offlineListeners) {
+                    listener(offline);
+                }
+            }
+        },
+        setLatency: value => {
+            latency = value;
+        },
+        failNext: (error, times = 1) => {
+            for (let i = 0; i < times; i++) {
+                failures.push(error);
+            }
+        },
+        getItems: <T extends Resource>(resource: string) => getItems(resource).map(item => ({...item})) as T[]
+    }
+}
+
+/**
+ * Creates a cache adapter storing all items in memory. Items stored without an id are assigned a temporary id.
+ * Every entry keeps a snapshot of the last synced version until it is synced again
+ */
+export function createMemoryCache(): MemoryCache {
+    const entries = new Map<string, Map<Resource["id"], {id: Resource["id"], local: Resource | null, remote?: Resource | null}>>();
+    const outboxes = new Map<string, Mutation<any>[]>();
+    const cursors = new Map<string, SyncCursor | null>();
+
+    // Entries, outbox and cursor are scoped by resource name and params
+    const getScope = (name: string, params: Params | undefined) => JSON.stringify([name, params ?? null]);
+
+    const getEntries = (scope: string) => {
+        if (!entries.has(scope)) {
+            entries.set(scope, new Map());
+        }
+        return entries.get(scope)!;
+    }
+
+    return {
+        adapter: name => ({
+            actionHook: <T extends Resource>(_config: {}, params?: Params) => {
+                const scope = getScope(name, params);
+                return useMemo<CacheActionHookReturn<undefined, T>>(() => {
+                    const cache = getEntries(scope);
+
+                    const store = (resource: any) => {
+                        const item = {...resource, id: resource.id ?? createTemporaryId()};
+                        const entry = cache.get(item.id);
+                        cache.set(item.id, {
+                            id: item.id,
+                            local: item,
+                            remote: entry === undefined ? null : entry.remote === undefined ? entry.local : entry.remote
+                        });
+                        return item as T;
+                    }
+
+                    const update = (id: Resource["id"], resource: any) => {
+                        const entry = cache.get(id);
+                        const local = {...entry?.local, ...resource, id};
+                        if (entry === undefined) {
+                            // Item was loaded before caching was enabled. Its remote version is unknown
+                            cache.set(id, {id, local});
+                        }
+                        else {
+                            cache.set(id, {
+                                id,
+                                local,
+                                remote: entry.remote === undefined ? entry.local : entry.remote
+                            });
+                        }
+                        return local as DeepPartial<T>;
+                    }
+
+                    const destroy = (id: Resource["id"]) => {
+                        const entry = cache.get(id);
+                        if (entry === undefined) return;
+                        if (entry.remote === null) {
+                            // Item never existed on the remote
+                            cache.delete(id);
+                        }
+                        else {
+                            cache.set(id, {
+                                id,
+                                local: null,
+                                remote: entry.remote === undefined ? entry.local : entry.remote
+                            });
+                        }
+                    }
+
+                    const getOutbox = () => {
+                        if (!outboxes.has(scope)) {
+                            outboxes.set(scope, []);
+                        }
+                        return outboxes.get(scope)! as Mutation<T>[];
+                    }
+
+                    return {
+                        store,
+                        batchStore: resources => resources.map(store),
+                        update,
+                        batchUpdate: resources => resources.map(({id, ...resource}) => update(id, resource)),
+                        destroy,
+                        batchDestroy: ids => ids.forEach(destroy),
+                        refresh: <U = null>(id?: Resource["id"]) => {
+                            if (id !== undefined) {
+                                return {data: cache.get(id)?.local ?? null, meta: null, error: null} as ResourceResponse<T, U>;
+                            }
+                            return {
+                                data: [...cache.values()].map(entry => entry.local).filter((item): item is Resource => item !== null),
+                                meta: null,
+                                error: null
+                            } as ResourceResponse<T, U>;
+                        },
+                        query: action => {
+                            throw new Error(`Query '${action}' is not supported by the memory cache`);
+                        },
+                        addOfflineListener: () => () => {},
+                        sync: (...ids) => {
+                            for (const id of ids) {
+                                const entry = cache.get(id);
+                                if (entry?.local === null) {
+                                    cache.delete(id);
+                                }
+                                else if (entry !== undefined) {
+                                    cache.set(id, {id, local: entry.local});
+                                }
+                            }
+                        },
+                        getCache: () => [...cache.values()].map(entry => ({...entry})) as {id: T["id"], local: T | null, remote?: T | null}[],
+                        getOutbox: () => [...getOutbox()],
+                        putOutbox: mutation => {
+                            const outbox = getOutbox();
+                            const index = outbox.findIndex(({key}) => key === mutation.key);
+                            if (index === -1) {
+                                outbox.push(mutation);
+                            }
+                            else {
+                                outbox[index] = mutation;
+                            }
+                        },
+                        removeOutbox: key => {
+                            outboxes.set(scope, getOutbox().filter(mutation => mutation.key !== key));
+                        },
+                        getCursor: () => cursors.get(scope) ?? null,
+                        putCursor: cursor => {
+                            cursors.set(scope, cursor);
+                        }
+                    }
+                }, [scope]);
+            },
+            eventHook: () => {}
+        }),
+        getEntries: <T extends Resource>(resource: string, params?: Params) => [...getEntries(getScope(resource, params)).values()].map(entry => ({...entry})) as {id: T["id"], local: T | null, remote?: T | null}[],
+        clear: () => {
+            entries.clear();
+            outboxes.clear();
+            cursors.clear();
+        }
+    }
+}
@@ -0,0 +1,221 @@
+import { useMemo } from "react";
+import pluralize from "pluralize";
+import { CursorExpiredError, OfflineError, ResponseError } from "../errors";
+import { ActionHookReturn, PageRequest, Params, Resource, ResourceBackendAdapter, ResourceQueryResponse, ResourceResponse, SyncCursor } from "../types";
+
+export type RouteFunction = (name: string, params?: Params) => string;
+
+export interface RestResourceConfig {
+    /**
+     * Name of the route parameter containing the id of the item. Defaults to the singular form of the last segment of the resource name
+     */
+    paramName?: string
+}
+
+export type RestRequestConfig = Omit<RequestInit, "method" | "body" | "signal">;
+
+/**
+ * Creates a backend adapter sending requests to [Laravel resource routes]{@link https://laravel.com/docs/controllers#resource-controllers} using fetch.
+ * A resource named 'users.posts' is mapped to the routes 'users.posts.index', 'users.posts.store', 'users.posts.show', 'users.posts.update' and 'users.posts.destroy'.
+ * Parent ids (e.g. 'user') are passed using the hooks params. Batch actions send one request per item
+ * Incremental refreshes pass the cursor as 'since' query parameter. The backend responds with status 410 if the cursor has expired
+ * @param routeFunction Resolves a route name and parameters to a url. Any function with the same signature as ziggy-js' 'route' may be used
+ * @param reactNative Should be set to true when used in a react native project. Objects with an 'uri' property are then treated as files
+ * @param fetch The fetch implementation to be used. Defaults to the global fetch
+ * @param init Options passed to every request. Merged with the RequestConfig of the individual request
+ * @param eventHook An event hook (e.g. using websockets) to receive changes made by other clients. No events are received by default
+ */
+export function createRestAdapter({routeFunction, reactNative = false, fetch: fetchFunction = (input, init) => fetch(input, init), init, eventHook = () => {}}: {
+    routeFunction: RouteFunction,
+    reactNative?: boolean,
+    fetch?: (input: string, init: RequestInit) => Promise<Response>,
+    init?: RestRequestConfig,
+    eventHook?: ReturnType<ResourceBackendAdapter<RestResourceConfig, {}, RestRequestConfig>>["eventHook"]
+}): ResourceBackendAdapter<RestResourceConfig, {}, RestRequestConfig> {
+    const offlineListeners = new Set<(offline: boolean) => void>();
+    let offline = false;
+
+    const setOffline = (value: boolean) => {
+        if (offline !== value) {
+            offline = value;
+            for (const listener of offlineListeners) {
+                listener(offline);
+            }
+        }
+    }
+
+    if (typeof window !== "undefined" && typeof window.addEventListener === "function") {
+        window.addEventListener("online", () => setOffline(false));
+        window.addEventListener("offline", () => setOffline(true));
+    }
+
+    const isFile = (value: any) => reactNative ? (
+        value !== null && typeof value === "object" && typeof value.uri === "string"
+    ) : (
+        (typeof Blob !== "undefined" && value instanceof Blob)
+    );
+
+    const containsFile = (value: any): boolean => isFile(value) || (value !== null && typeof value === "object" && Object.values(value).some(containsFile));
+
+    const appendFormData = (formData: FormData, key: string, value: any) => {
+        if (isFile(value)) {
+            formData.append(key, value);
+        }
+        else if (value === null || value === undefined) {
+            formData.append(key, "");
+        }
+        else if (typeof value === "boolean") {
+            formData.append(key, value ? "1" : "0");
+        }
+        else if (value instanceof Date) {
+            formData.append(key, value.toISOString());
+        }
+        else if (typeof value === "object") {
+            for (const [name, item] of Object.entries(value)) {
+                appendFormData(formData, `${key}[${name}]`, item);
+            }
+        }
+        else {
+            formData.append(key, String(value));
+        }
+    }
+
+    const request = async (method: string, url: string, body: any, config: RestRequestConfig | undefined, signal?: AbortSignal) => {
+        const headers = new Headers(init?.headers);
+        new Headers(config?.headers).forEach((value, key) => headers.set(key, value));
+        headers.set("Accept", "application/json");
+        let payload: BodyInit | undefined = undefined;
+        if (body !== undefined) {
+            if (containsFile(body)) {
+                // PHP only parses multipart bodies of POST requests. The actual method is passed using method spoofing
+                const formData = new FormData();
+                for (const [key, value] of Object.entries(body)) {
+                    appendFormData(formData, key, value);
+                }
+                if (method !== "POST") {
+                    formData.append("_method", method);
+                    method = "POST";
+                }
+                payload = formData;
+            }
+            else {
+                headers.set("Content-Type", "application/json");
+                payload = JSON.stringify(body);
+            }
+        }
+
+        let response: Response;
+        try {
+            response = await fetchFunction(url, {
+                ...init,
+                ...config,
+                method,
+                headers,
+                body: payload,
+                signal
+            });
+        }
+        catch (e) {
+            if (e instanceof TypeError) {
+                // fetch only rejects with a TypeError if the request could not be sent
+                setOffline(true);
+                throw new OfflineError(e, e.message);
+            }
+            throw e;
+        }
+        setOffline(false);
+
+        const json = response.headers.get("Content-Type")?.includes("json") ? await response.json() : null;
+        if (!response.ok) {
+            throw new ResponseError(response, json, json?.message ?? `Request failed with status code ${response.status}`);
+        }
+        return json;
+    }
+
+    // Laravel wraps json resources in a 'data' key unless wrapping is disabled
+    const unwrap = (body: any) => body !== null && typeof body === "object" && "data" in body ? body.data : body;
+
+    const pageParams = (page: PageRequest | undefined): Params => {
+        switch (page?.type) {
+            case "cursor":
+                return {cursor: page.cursor ?? undefined, per_page: page.limit};
+            case "page":
+                return {page: page.page, per_page: page.limit};
+            case "offset":
+                return {offset: page.offset, limit: page.limit};
+            default:
+                return {};
+        }
+    }
+
+    return (resource, {paramName}) => {
+        const segments = resource.split(".").map(segment => pluralize(segment));
+        const routeName = segments.join(".");
+        const idParam = paramName ?? pluralize.singular(segments[segments.length - 1]).replace(/-/g, "_");
+
+        return {
+            actionHook: <T extends Resource>(_config: {}, params?: Params) => {
+                const paramsKey = JSON.stringify(params ?? null);
+                return useMemo<ActionHookReturn<RestRequestConfig, T>>(() => {
+                    const route = (action: string, id?: Resource["id"], additional?: Params) => routeFunction(`${routeName}.${action}`, {
+                        ...params,
+                        ...(id !== undefined && {[idParam]: id}),
+                        ...additional
+                    });
+
+                    const store = async (resource: any, config: RestRequestConfig | undefined) => unwrap(await request("POST", route("store"), resource, config)) as T;
+                    const update = async (id: Resource["id"], resource: any, config: RestRequestConfig | undefined) => unwrap(await request("PUT", route("update", id), resource, config));
+                    const destroy = async (id: Resource["id"], config: RestRequestConfig | undefined) => {
+                        await request("DELETE", route("destroy", id), undefined, config);
+                    }
+
+                    return {
+                        store,
+                        batchStore: (resources, config) => Promise.all(resources.map(resource => store(resource, config))),
+                        update,
+                        batchUpdate: (resources, config) => Promise.all(resources.map(({id, ...resource}) => update(id, resource, config))),
+                        destroy,
+                        batchDestroy: async (ids, config) => {
+                            await Promise.all(ids.map(id => destroy(id, config)));
+                        },
+                        refresh: async <U = null>(id?: Resource["id"], config?: RestRequestConfig, signal?: AbortSignal, page?: PageRequest, since?: SyncCursor) => {
+                            try {
+                                const body = await request("GET", id === undefined ? route("index", undefined, {...pageParams(page), since}) : route("show", id), undefined, config, signal);
+                                return {
+                                    data: unwrap(body),
+                                    // Paginated responses contain the paginator state in 'meta' (e.g. 'current_page', 'last_page' or 'next_cursor')
+                                    meta: body?.meta ?? null,
+                                    error: null,
+                                    // Incremental responses contain the changes as 'deltas'. Both full and incremental responses may contain the next 'cursor'
+                                    deltas: body?.deltas,
+                                    cursor: body?.cursor
+                                } as ResourceResponse<T, U>;
+                            }
+                            catch (e) {
+                                if (since !== undefined && e instanceof ResponseError && e.response.status === 410) {
+                                    throw new CursorExpiredError(e.message);
+                                }
+                                throw e;
+                            }
+                        },
+                        query: async (action, data, queryParams, config) => {
+                            const body = await request("POST", routeFunction(`${routeName}.${action}`, {...params, ...queryParams}), data, config);
+                            return {
+                                data: unwrap(body) ?? [],
+                                update: body?.update ?? "merge",
+                                destroy: body?.destroy ?? []
+                            } as ResourceQueryResponse<T>;
+                        },
+                        addOfflineListener: listener => {
+                            offlineListeners.add(listener);
+                            return () => {
+                                offlineListeners.delete(listener);
+                            }
+                        }
+                    }
+                }, [paramsKey]);
+            },
+            eventHook
+        }
+    }
+}
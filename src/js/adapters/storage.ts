@@ -0,0 +1,131 @@
+import { useMemo } from "react";
+import { DeepPartial } from "ts-essentials";
+import { CacheActionHookReturn, CacheResourceBackendAdapter, Mutation, Params, Resource, ResourceResponse, SyncCursor } from "../types";
+import { createTemporaryId } from "../util";
+
+export interface CacheEntry<T extends Resource = Resource> {
+    id: T["id"],
+    local: T | null,
+    /**
+     * Version of the item at the time of the last sync. undefined if the item has not changed since
+     */
+    remote?: T | null
+}
+
+export interface CacheStorage {
+    getEntries: (scope: string) => Promise<CacheEntry[]>,
+    /**
+     * Atomically modifies the entries with the given ids
+     * @param modify Receives the current entries (undefined if missing) and returns the new entries. null deletes the entry, undefined leaves it unchanged
+     */
+    modifyEntries: (scope: string, ids: Resource["id"][], modify: (entries: (CacheEntry | undefined)[]) => (CacheEntry | null | undefined)[]) => Promise<void>,
+    /**
+     * Returns the outbox of the scope in the order the mutations were first added
+     */
+    getOutbox: (scope: string) => Promise<Mutation<any>[]>,
+    putOutbox: (scope: string, mutation: Mutation<any>) => Promise<void>,
+    removeOutbox: (scope: string, key: string) => Promise<void>,
+    getCursor: (scope: string) => Promise<SyncCursor | null>,
+    putCursor: (scope: string, cursor: SyncCursor | null) => Promise<void>
+}
+
+/**
+ * Migrates items and deltas stored using an older schema version
+ * @param item The stored item or partial update
+ * @param version The schema version the item was stored with
+ * @returns The item in the current schema
+ */
+export type CacheMigration = (item: any, version: number) => any;
+
+export const migrateMutation = (mutation: Mutation<any>, migrate: CacheMigration, version: number): Mutation<any> => {
+    switch (mutation.delta.action) {
+        case "store":
+            return {...mutation, delta: {...mutation.delta, resource: migrate(mutation.delta.resource, version)}};
+        case "update":
+            return {...mutation, delta: {...mutation.delta, update: migrate(mutation.delta.update, version)}};
+        default:
+            return mutation;
+    }
+}
+
+export const migrateEntry = (entry: CacheEntry, migrate: CacheMigration, version: number): CacheEntry => ({
+    ...entry,
+    local: entry.local && migrate(entry.local, version),
+    ...(entry.remote !== undefined && {remote: entry.remote && migrate(entry.remote, version)})
+});
+
+// Snapshot of the last synced version. Only taken on the first change after a sync
+const snapshot = (entry: CacheEntry) => entry.remote === undefined ? entry.local : entry.remote;
+
+/**
+ * Creates a cache adapter implementing the snapshot and outbox logic on top of the given storage. Entries are scoped by resource name and params
+ */
+export function createStorageCache(storage: CacheStorage): CacheResourceBackendAdapter<{}, {}, undefined> {
+    return name => ({
+        actionHook: <T extends Resource>(_config: {}, params?: Params) => {
+            const scope = JSON.stringify([name, params ?? null]);
+            return useMemo<CacheActionHookReturn<undefined, T>>(() => {
+                const batchStore = async (resources: any[]) => {
+                    const items = resources.map(resource => ({...resource, id: resource.id ?? createTemporaryId()}) as T);
+                    await storage.modifyEntries(scope, items.map(item => item.id), entries => entries.map((entry, index) => ({
+                        id: items[index].id,
+                        local: items[index],
+                        remote: entry === undefined ? null : snapshot(entry)
+                    })));
+                    return items;
+                }
+
+                const batchUpdate = async (resources: any[]) => {
+                    const items: DeepPartial<T>[] = [];
+                    await storage.modifyEntries(scope, resources.map(resource => resource.id), entries => entries.map((entry, index) => {
+                        const local = {...entry?.local, ...resources[index]} as T;
+                        items.push(local as DeepPartial<T>);
+                        // Items loaded before caching was enabled have no known remote version
+                        return entry === undefined ? {id: local.id, local} : {id: local.id, local, remote: snapshot(entry)};
+                    }));
+                    return items;
+                }
+
+                const batchDestroy = async (ids: Resource["id"][]) => {
+                    await storage.modifyEntries(scope, ids, entries => entries.map((entry, index) => {
+                        if (entry === undefined) return undefined;
+                        // Items that never existed on the remote can be removed right away
+                        return entry.remote === null ? null : {id: ids[index], local: null, remote: snapshot(entry)};
+                    }));
+                }
+
+                return {
+                    store: async resource => (await batchStore([resource]))[0],
+                    batchStore,
+                    update: async (id, resource) => (await batchUpdate([{...resource, id}]))[0],
+                    batchUpdate,
+                    destroy: id => batchDestroy([id]),
+                    batchDestroy,
+                    refresh: async <U = null>(id?: Resource["id"]) => {
+                        const entries = await storage.getEntries(scope);
+                        return {
+                            data: id === undefined ? entries.map(entry => entry.local).filter((item): item is T => item !== null) : entries.find(entry => entry.id == id)?.local ?? null,
+                            meta: null,
+                            error: null
+                        } as ResourceResponse<T, U>;
+                    },
+                    query: action => {
+                        throw new Error(`Query '${action}' is not supported by the cache`);
+                    },
+                    addOfflineListener: () => () => {},
+                    sync: (...ids) => storage.modifyEntries(scope, ids, entries => entries.map(entry => {
+                        if (entry === undefined) return undefined;
+                        return entry.local === null ? null : {id: entry.id, local: entry.local};
+                    })),
+                    getCache: () => storage.getEntries(scope) as Promise<CacheEntry<T>[]>,
+                    getOutbox: () => storage.getOutbox(scope),
+                    putOutbox: mutation => storage.putOutbox(scope, mutation),
+                    removeOutbox: key => storage.removeOutbox(scope, key),
+                    getCursor: () => storage.getCursor(scope),
+                    putCursor: cursor => storage.putCursor(scope, cursor)
+                }
+            }, [scope]);
+        },
+        eventHook: () => {}
+    })
+}
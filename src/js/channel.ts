@@ -0,0 +1,67 @@
+import { transformDelta, Transforms } from "./transform";
+import { Delta, Resource } from "./types";
+
+export interface TabChannel<T extends Resource> {
+    /**
+     * Sends deltas applied in this tab to all other tabs
+     */
+    broadcast: (...deltas: Delta<T>[]) => void,
+    addListener: (listener: (deltas: Delta<T>[]) => void) => () => void,
+    /**
+     * Whether this tab is responsible for syncing the cache and replaying the outbox
+     */
+    isLeader: () => boolean,
+    /**
+     * Called once this tab becomes the leader
+     */
+    addLeaderListener: (listener: () => void) => () => void
+}
+
+/**
+ * Connects all tabs using the resource with the given name. Returns null if BroadcastChannel is not supported.
+ * The leader is elected using the Web Locks API. Every tab is considered the leader if it isn't supported
+ */
+export function createTabChannel<T extends Resource>(name: string, transforms: Transforms | null): TabChannel<T> | null {
+    if (typeof BroadcastChannel === "undefined") {
+        return null;
+    }
+    const channel = new BroadcastChannel(name);
+    const listeners = new Set<(deltas: Delta<T>[]) => void>();
+    const leaderListeners = new Set<() => void>();
+    let leader = typeof navigator === "undefined" || !("locks" in navigator);
+
+    channel.addEventListener("message", (event: MessageEvent<Delta<T>[]>) => {
+        const deltas = transforms === null ? event.data : event.data.map(delta => transformDelta(delta, transforms.deserialize));
+        for (const listener of listeners) {
+            listener(deltas);
+        }
+    });
+
+    if (!leader) {
+        // The lock is held until the tab is closed, after which the next waiting tab takes over
+        navigator.locks.request(name, () => {
+            leader = true;
+            for (const listener of leaderListeners) {
+                listener();
+            }
+            return new Promise<void>(() => {});
+        });
+    }
+
+    return {
+        broadcast: (...deltas) => channel.postMessage(transforms === null ? deltas : deltas.map(delta => transformDelta(delta, transforms.serialize))),
+        addListener: listener => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            }
+        },
+        isLeader: () => leader,
+        addLeaderListener: listener => {
+            leaderListeners.add(listener);
+            return () => {
+                leaderListeners.delete(listener);
+            }
+        }
+    }
+}
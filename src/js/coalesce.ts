@@ -0,0 +1,124 @@
+import { ActionHookReturn, Resource } from "./types";
+
+interface Caller<R> {
+    resolve: (result: R) => void,
+    reject: (error: unknown) => void
+}
+
+/**
+ * Time window in which mutations are collected. 'microtask' collects all mutations issued synchronously, a number collects all mutations issued within the given time in ms
+ */
+export type CoalesceWindow = "microtask" | number;
+
+const settle = async <R>(callers: Caller<R>[][], request: () => Promise<R[]> | R[]) => {
+    try {
+        const results = await request();
+        callers.forEach((callers, index) => callers.forEach(caller => caller.resolve(results[index])));
+    }
+    catch (e) {
+        callers.forEach(callers => callers.forEach(caller => caller.reject(e)));
+    }
+}
+
+interface Buffer<RequestConfig, T extends Resource> {
+    // Actions of the hook that issued the first mutation. Used to send the whole batch
+    actions: ActionHookReturn<RequestConfig, T>,
+    // Requests with different configs can't be sent in the same batch
+    stores: Map<RequestConfig | undefined, {resource: any, caller: Caller<T>}[]>,
+    updates: Map<RequestConfig | undefined, Map<Resource["id"], {update: any, callers: Caller<any>[]}>>,
+    destroys: Map<RequestConfig | undefined, Map<Resource["id"], Caller<void>[]>>
+}
+
+const flush = async <RequestConfig, T extends Resource>({actions, stores, updates, destroys}: Buffer<RequestConfig, T>) => {
+    // Stores are sent first, so later mutations may refer to the stored items
+    for (const [config, buffer] of stores) {
+        await settle(buffer.map(({caller}) => [caller]), async () => buffer.length === 1
+            ? [await actions.store(buffer[0].resource, config)]
+            : await actions.batchStore(buffer.map(({resource}) => resource), config)
+        );
+    }
+    for (const [config, buffer] of updates) {
+        const entries = [...buffer.entries()];
+        await settle(entries.map(([, {callers}]) => callers), async () => entries.length === 1
+            ? [await actions.update(entries[0][0], entries[0][1].update, config)]
+            : await actions.batchUpdate(entries.map(([id, {update}]) => ({...update, id})), config)
+        );
+    }
+    for (const [config, buffer] of destroys) {
+        const ids = [...buffer.keys()];
+        await settle([...buffer.values()], async () => {
+            if (ids.length === 1) {
+                await actions.destroy(ids[0], config);
+            }
+            else {
+                await actions.batchDestroy(ids, config);
+            }
+            return ids.map(() => undefined);
+        });
+    }
+}
+
+/**
+ * Creates a coalescer shared by all hooks of a resource. The returned function wraps the actions of a hook so that store, update and destroy requests
+ * issued within the given window are sent using the respective batch actions. Mutations of all hooks with the same key (i.e. the same params) share a batch.
+ * Updates to the same id are merged. Every caller receives the result for its own item
+ */
+export function createCoalescer(window: CoalesceWindow) {
+    const buffers = new Map<string, Buffer<any, any>>();
+
+    const getBuffer = <RequestConfig, T extends Resource>(key: string, actions: ActionHookReturn<RequestConfig, T>): Buffer<RequestConfig, T> => {
+        let buffer = buffers.get(key);
+        if (buffer === undefined) {
+            buffer = {actions, stores: new Map(), updates: new Map(), destroys: new Map()};
+            buffers.set(key, buffer);
+            const run = () => {
+                buffers.delete(key);
+                flush(buffer!);
+            }
+            if (window === "microtask") {
+                queueMicrotask(run);
+            }
+            else {
+                setTimeout(run, window);
+            }
+        }
+        return buffer;
+    }
+
+    return <RequestConfig, T extends Resource>(actions: ActionHookReturn<RequestConfig, T>, key: string): ActionHookReturn<RequestConfig, T> => ({
+        ...actions,
+        store: (resource, config) => new Promise((resolve, reject) => {
+            const {stores} = getBuffer(key, actions);
+            if (!stores.has(config)) {
+                stores.set(config, []);
+            }
+            stores.get(config)!.push({resource, caller: {resolve, reject}});
+        }),
+        update: (id, resource, config) => new Promise((resolve, reject) => {
+            const {updates} = getBuffer(key, actions);
+            if (!updates.has(config)) {
+                updates.set(config, new Map());
+            }
+            const buffer = updates.get(config)!;
+            const entry = buffer.get(id);
+            if (entry === undefined) {
+                buffer.set(id, {update: resource, callers: [{resolve, reject}]});
+            }
+            else {
+                entry.update = {...entry.update, ...resource};
+                entry.callers.push({resolve, reject});
+            }
+        }),
+        destroy: (id, config) => new Promise((resolve, reject) => {
+            const {destroys} = getBuffer(key, actions);
+            if (!destroys.has(config)) {
+                destroys.set(config, new Map());
+            }
+            const buffer = destroys.get(config)!;
+            if (!buffer.has(id)) {
+                buffer.set(id, []);
+            }
+            buffer.get(id)!.push({resolve, reject});
+        })
+    });
+}
@@ -0,0 +1,17 @@
+export class OfflineError extends Error {
+    constructor(public originalError: Error, message?: string, options?: ErrorOptions) {
+        super(message, options);
+    }
+}
+export class ConflictError extends Error {}
+export class CursorExpiredError extends Error {}
+export class ResponseError extends Error {
+    constructor(public response: Response, public body: any, message?: string, options?: ErrorOptions) {
+        super(message, options);
+    }
+}
+export class ValidationError extends Error {
+    constructor(public resource: string, public path: string, public issues: unknown, message?: string, options?: ErrorOptions) {
+        super(message, options);
+    }
+}
@@ -0,0 +1,150 @@
+import { SetStateAction, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { DeepPartial } from "ts-essentials";
+import { mergeConflictResolver } from "./merge";
+import { Options, Resource, ReturnSingle } from "./types";
+import { deepEquals, findChangedPathsRecursive, pruneUnchanged } from "./util";
+
+export interface ResourceForm<T extends Resource> {
+    /**
+     * The edited version of the item. null while the item is not loaded
+     */
+    draft: T | null,
+    setDraft: (action: SetStateAction<T>) => void,
+    /**
+     * Merges the given fields into the draft
+     */
+    change: (update: Partial<T>) => void,
+    /**
+     * Whether the draft differs from the item
+     */
+    dirty: boolean,
+    /**
+     * Dot-separated paths of all fields that differ from the item
+     */
+    dirtyFields: string[],
+    /**
+     * Sends all changed fields to the backend
+     * @returns A void promise that resolves once the update is complete
+     */
+    save: () => Promise<void>,
+    saving: boolean,
+    /**
+     * Error that occured during the last save. null if no error occured or the save is still in progress
+     */
+    error: Error | null,
+    /**
+     * Discards all changes
+     */
+    reset: () => void,
+    /**
+     * Whether the item has been changed by someone else while the draft was dirty. Only set if 'onRemoteUpdate' is 'warn'
+     */
+    outdated: boolean,
+    /**
+     * Applies the changes made by someone else to the draft. Fields changed in the draft are kept
+     */
+    rebase: () => void
+}
+
+const rebaseResolver = mergeConflictResolver<any>({defaultPolicy: "local-wins"});
+
+/**
+ * Keeps a local draft of a single resource and sends only the changed fields when saving
+ * @param resource The return value of the resource hook for a single item
+ * @param autosave Save automatically once the draft hasn't changed for 'debounce' ms. Defaults to false
+ * @param debounce Delay in ms before autosaving. Defaults to 1000
+ * @param onRemoteUpdate What to do if the item is changed by someone else while the draft is dirty
+ *  'rebase' applies the changes to the draft, keeping fields changed in the draft
+ *  'warn' keeps the draft unchanged and sets 'outdated' until 'rebase' or 'reset' is called
+ * @param options Options passed to 'update' when saving
+ */
+export function useResourceForm<T extends Resource, U, RequestConfig, CacheRequestConfig>([item, {update}]: [T | null, ReturnSingle<RequestConfig, CacheRequestConfig, T, U>], {
+    autosave = false,
+    debounce = 1000,
+    onRemoteUpdate = "rebase",
+    options
+}: {
+    autosave?: boolean,
+    debounce?: number,
+    onRemoteUpdate?: "rebase" | "warn",
+    options?: Options<RequestConfig, CacheRequestConfig>
+} = {}): ResourceForm<T> {
+    // The version of the item the draft is based on
+    const [base, setBase] = useState(item);
+    const [draft, setDraftState] = useState(item);
+    const [outdated, setOutdated] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<Error | null>(null);
+    // Draft whose autosave failed. Autosave is only retried once the draft changes again
+    const [failedDraft, setFailedDraft] = useState<T | null>(null);
+    // Fields sent by the last save. Changes to these fields are expected and not considered remote updates
+    const savedFields = useRef<string[]>([]);
+
+    const dirtyFields = useMemo(() => draft !== null && base !== null ? findChangedPathsRecursive(base, draft) : [], [base, draft]);
+    const dirty = dirtyFields.length > 0;
+
+    const rebase = useCallback(() => {
+        setDraftState(draft => draft === null || base === null || item === null ? item : rebaseResolver(draft, base, item));
+        setBase(item);
+        setOutdated(false);
+    }, [item, base]);
+
+    useEffect(() => {
+        if (item === base) return;
+        const remoteFields = item !== null && base !== null ? findChangedPathsRecursive(base, item) : [];
+        const expected = remoteFields.every(path => savedFields.current.some(saved => path === saved || path.startsWith(`${saved}.`) || saved.startsWith(`${path}.`)));
+        if (!dirty || item === null || base === null || draft === null) {
+            setDraftState(item);
+            setBase(item);
+            setOutdated(false);
+        }
+        else if (onRemoteUpdate === "rebase" || expected) {
+            rebase();
+        }
+        else {
+            setOutdated(true);
+        }
+        savedFields.current = [];
+    }, [item]);
+
+    const setDraft = useCallback((action: SetStateAction<T>) => {
+        setDraftState(draft => draft === null ? null : typeof action === "function" ? action(draft) : action);
+    }, [setDraftState]);
+
+    const change = useCallback((update: Partial<T>) => {
+        setDraft(draft => ({...draft, ...update}));
+    }, [setDraft]);
+
+    const reset = useCallback(() => {
+        setDraftState(item);
+        setBase(item);
+        setOutdated(false);
+    }, [item]);
+
+    const save = useCallback(async () => {
+        if (draft === null || base === null || deepEquals(draft, base)) return;
+        setSaving(true);
+        setError(null);
+        try {
+            savedFields.current = dirtyFields;
+            await update(pruneUnchanged<U>(draft, base, []) as DeepPartial<U>, options);
+        }
+        catch (e) {
+            savedFields.current = [];
+            setError(e as Error);
+            throw e;
+        }
+        finally {
+            setSaving(false);
+        }
+    }, [draft, base, dirtyFields, update, options]);
+
+    useEffect(() => {
+        if (autosave && dirty && !saving && !outdated && draft !== failedDraft) {
+            const timeout = setTimeout(() => save().catch(() => setFailedDraft(draft)), debounce); // Errors are exposed through 'error'
+            return () => clearTimeout(timeout);
+        }
+    }, [autosave, dirty, saving, outdated, debounce, save, draft, failedDraft]);
+
+    return {draft, setDraft, change, dirty, dirtyFields, save, saving, error, reset, outdated, rebase};
+}
@@ -1,40 +1,101 @@
 import { assertNotNull, isNotNull, requireNotNull } from "@enymo/ts-nullsafe";
-import React, { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import React, { createContext, ReactNode, SetStateAction, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
 import { DeepPartial } from "ts-essentials";
-import { CacheResourceBackendAdapter, OnCreatedListener, OnDestroyedListener, OnUpdatedListener, Options, OptionsImplementation, OptionsList, OptionsSingle, Params, RefreshOptions, Resource, ResourceBackendAdapter, ReturnList, ReturnSingle, UpdateMethod } from "./types";
-import { deepEquals, pruneUnchanged } from "./util";
+import { useSyncExternalStore } from "use-sync-external-store/shim";
+import { CacheResourceBackendAdapter, Conflict, Delta, HistoryEntry, Mutation, OnCreatedListener, OnDestroyedListener, OnRollbackListener, OnUpdatedListener, Options, OptionsCommon, OptionsImplementation, OptionsList, OptionsSingle, PageRequest, Params, RefreshOptions, Resource, ResourceBackendAdapter, RetryPolicy, RevalidateOptions, ReturnList, ReturnSingle, UpdateMethod, Version } from "./types";
+import { createTabChannel } from "./channel";
+import { CoalesceWindow, createCoalescer } from "./coalesce";
+import { ConflictError, CursorExpiredError, OfflineError, ValidationError } from "./errors";
+import { applyMiddleware, Middleware } from "./middleware";
+import { transformActions, transformCacheActions, Transforms } from "./transform";
+import { withRetry } from "./retry";
+import { createEntityStore, EntityStore } from "./store";
+import { createValidation, InvalidHandling, Schema, validateActions } from "./validate";
+import { createTemporaryId, deepEquals, diff, discardOutdated, firstPage, matchesParams, nextPage as getNextPage, pruneUnchanged, resolveDeltas, uniqueKey } from "./util";
 
 export type {
-    ActionHookReturn, CacheResourceBackendAdapter, Delta, OnCreatedListener,
+    ActionHookReturn, CacheResourceBackendAdapter, Conflict, Delta, HistoryEntry, Mutation, OnCreatedListener,
     OnDestroyedListener,
+    OnRollbackListener,
     OnUpdatedListener,
+    PageRequest,
+    Paginate,
     Params,
     Resource,
     ResourceBackendAdapter, ResourceQueryResponse,
     ResourceResponse,
     ReturnList,
-    ReturnSingle
+    ReturnSingle,
+    RetryPolicy,
+    RevalidateOptions,
+    SyncCursor,
+    Version
 } from "./types";
 export type { DeepPartial };
-export class OfflineError extends Error {
-    constructor(public originalError: Error, message?: string, options?: ErrorOptions) {
-        super(message, options);
-    }
-}
-export class ConflictError extends Error {}
+export { createIndexedDbCache } from "./adapters/indexeddb";
+export { createLocalStorageCache } from "./adapters/localstorage";
+export { createMemoryBackend, createMemoryCache } from "./adapters/memory";
+export type { MemoryBackend, MemoryCache, MemoryQueryHandler } from "./adapters/memory";
+export { createRestAdapter } from "./adapters/rest";
+export type { RestRequestConfig, RestResourceConfig, RouteFunction } from "./adapters/rest";
+export { createStorageCache } from "./adapters/storage";
+export type { CacheEntry, CacheMigration, CacheStorage } from "./adapters/storage";
+export type { CoalesceWindow } from "./coalesce";
+export { ConflictError, CursorExpiredError, OfflineError, ResponseError, ValidationError } from "./errors";
+export { useResourceForm } from "./form";
+export type { ResourceForm } from "./form";
+export { mergeConflictResolver } from "./merge";
+export type { MergePolicy } from "./merge";
+export type { ActionContext, Middleware, MiddlewareAction } from "./middleware";
+export { isTemporaryId, matchesParams } from "./util";
+export type { InvalidHandling, Schema } from "./validate";
 
-export default function createResourceFactory<ResourceConfig extends {}, CacheResourceConfig extends {}, UseConfig extends {}, CacheUseConfig extends {}, RequestConfig, CacheRequestConfig>({ adapter, cache } : {
+export default function createResourceFactory<ResourceConfig extends {}, CacheResourceConfig extends {}, UseConfig extends {}, CacheUseConfig extends {}, RequestConfig, CacheRequestConfig>({ adapter, cache, revalidate: factoryRevalidate, coalesce, middleware: factoryMiddleware = [], serialize: factorySerialize, deserialize: factoryDeserialize, retry: factoryRetry } : {
     adapter: ResourceBackendAdapter<ResourceConfig, UseConfig, RequestConfig>,
     cache?: {
         adapter: CacheResourceBackendAdapter<CacheResourceConfig, CacheUseConfig, CacheRequestConfig>,
         equalityCallback?: (a: any, b: any) => boolean
-    }
-}) {     
+    },
+    revalidate?: RevalidateOptions,
+    /**
+     * Collect store, update and destroy requests issued within the given window and send them using the batch actions of the adapter.
+     * Updates to the same item are merged into one. Disabled by default
+     */
+    coalesce?: CoalesceWindow,
+    /**
+     * Middleware wrapping every request sent to the adapter by any resource. Runs before the middleware of the individual resources
+     */
+    middleware?: Middleware<RequestConfig>[],
+    /**
+     * Converts items (or partial items) before they are passed to the adapter or the cache, e.g. to convert Dates to strings
+     */
+    serialize?: Transforms["serialize"],
+    /**
+     * Converts items (or partial items) received from the adapter, the cache or through events, e.g. to parse date strings
+     */
+    deserialize?: Transforms["deserialize"],
+    /**
+     * Retry failed requests with exponential backoff. Disabled by default
+     */
+    retry?: RetryPolicy
+}) {
+    const stores = new Map<string, EntityStore<any>>();
+
     return <T extends Resource, U extends object = T, V = null>(resource: string, {
         defaultUpdateMethod = "on-success",
         pruneUnchanged: pruneUnchangedConfig = false,
         conflictResolver,
         uniqueIdentifierCallback = item => item.id.toString(),
+        matches: matchesOption,
+        middleware: resourceMiddleware = [],
+        serialize = factorySerialize,
+        deserialize = factoryDeserialize,
+        schema,
+        partialSchema,
+        onInvalid = "drop",
+        retry: resourceRetry = factoryRetry,
+        versionField,
+        crossTab = false,
         cache: cacheConfig = {},
         ...config
     }: {
@@ -42,10 +103,75 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
         pruneUnchanged?: boolean,
         conflictResolver?: (local: T | null, common: T | null, remote: T | null) => T | null,
         uniqueIdentifierCallback?: (item: T) => string,
+        /**
+         * Determines whether an item received through a 'created' or 'updated' event belongs to a list with the given params.
+         * Items are added to or removed from the list accordingly. By default, params are compared to the item fields with the same name.
+         * Items not in the list are only added through 'updated' events if this function is passed explicitly and the list isn't paginated.
+         * The function then has to reject payloads which don't contain the full item. If 'schema' is set, such payloads are rejected automatically.
+         * Pass false to add all received items
+         */
+        matches?: ((item: T, params: Params | undefined) => boolean) | false,
+        /**
+         * Middleware wrapping every request sent to the adapter for this resource
+         */
+        middleware?: Middleware<RequestConfig>[],
+        /**
+         * Converts the input type (or a partial item) to the format expected by the adapter. Overrides the function passed to the factory
+         */
+        serialize?: (item: DeepPartial<U> | DeepPartial<T>) => any,
+        /**
+         * Converts an item (or partial item) received from the adapter to T. Overrides the function passed to the factory
+         */
+        deserialize?: (raw: any) => T | DeepPartial<T>,
+        /**
+         * Validates items received from the adapter (refreshes, responses to store and events). Applied after 'deserialize'
+         */
+        schema?: Schema<T>,
+        /**
+         * Validates partial items received from the adapter (responses to update and 'updated' events). Partial items aren't validated if omitted
+         */
+        partialSchema?: Schema<DeepPartial<T>>,
+        /**
+         * How to handle items failing validation. Defaults to 'drop'
+         */
+        onInvalid?: InvalidHandling,
+        /**
+         * Retry policy for all requests of this resource. Overrides the policy passed to the factory. Pass false to disable retries
+         */
+        retry?: RetryPolicy | false,
+        /**
+         * Field containing the version of an item set by the backend (e.g. 'updated_at' or a revision number). Items are never replaced by an older version.
+         * Overrides 'getVersion' of the adapter
+         */
+        versionField?: string,
+        /**
+         * Share mutations with other tabs of the same browser, so they are applied there without relying on events of the backend.
+         * If the cache is used, only one tab syncs the cache during refreshes and replays the outbox. Disabled by default
+         */
+        crossTab?: boolean,
         cache?: {
             defaultEnabled?: boolean,
             batchSync?: boolean,
-            preferOffline?: boolean
+            preferOffline?: boolean,
+            /**
+             * Only load the changes since the last refresh if the backend adapter supports it. The full collection is rebuilt from the cache,
+             * so the cache must be enabled for refreshes. Requires the cache adapter to implement getCursor and putCursor
+             */
+            incremental?: boolean,
+            /**
+             * Queue mutations that fail with an OfflineError in the cache adapters outbox and replay them in order once back online.
+             * Requires the cache adapter to implement getOutbox, putOutbox and removeOutbox
+             */
+            outbox?: boolean | {
+                /**
+                 * Number of failed attempts after which a mutation is considered dead and skipped. Defaults to 5
+                 */
+                maxAttempts?: number,
+                /**
+                 * Delay in ms before the first retry of a failed mutation. Doubled for every further attempt. Defaults to 1000
+                 */
+                retryDelay?: number
+            }
         } & Partial<CacheResourceConfig>
     } & Partial<ResourceConfig> = {}) => {
         const ResourceContext = createContext<{
@@ -54,32 +180,147 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
             addCreatedListener: (listener: OnCreatedListener<T>) => () => void,
             addUpdatedListener: (listener: OnUpdatedListener<T>) => () => void,
             addDestroyedListener: (listener: OnDestroyedListener<T>) => () => void,
+            addRollbackListener: (listener: OnRollbackListener<T>) => () => void
         } | null>(null);
 
-        const {actionHook: useActions, eventHook: useEvent} = adapter(resource, config as Partial<ResourceConfig>);
+        const {actionHook: useActions, eventHook: useAdapterEvent, getVersion} = adapter(resource, config as Partial<ResourceConfig>);
+        const transforms: Transforms | null = serialize || deserialize ? {
+            serialize: serialize ?? (item => item),
+            deserialize: deserialize ?? (raw => raw)
+        } : null;
+        const useEvent: typeof useAdapterEvent = <P extends Resource | Resource["id"]>(params: Params | undefined, event: "created" | "updated" | "destroyed", handler: (payload: P) => void, enabled: boolean, dependencies?: React.DependencyList) => useAdapterEvent<P>(
+            params,
+            event,
+            transforms === null || event === "destroyed" ? handler : payload => handler(transforms.deserialize(payload)),
+            enabled,
+            dependencies
+        );
+        const validation = schema === undefined ? null : createValidation(resource, {schema, partialSchema, onInvalid});
+        const matches = matchesOption ?? matchesParams;
+        const versionOf = versionField !== undefined ? (item: any) => item?.[versionField] as Version : getVersion;
+        // Items are never replaced by an older version, e.g. through an event delivered after a newer response
+        const isOutdated = (current: object, incoming: object) => {
+            if (!versionOf) {
+                return false;
+            }
+            const currentVersion = versionOf(current);
+            const incomingVersion = versionOf(incoming);
+            return isNotNull(currentVersion) && isNotNull(incomingVersion) && incomingVersion < currentVersion;
+        }
+        // Items of a page are replaced in place. Items may already be present if they have been created since the previous page was loaded
+        const mergePage = (prev: T[], page: T[]) => {
+            const indices = new Map(prev.map((item, index) => [uniqueIdentifierCallback(item), index]));
+            const result = [...prev];
+            for (const item of page) {
+                const index = indices.get(uniqueIdentifierCallback(item));
+                if (index === undefined) {
+                    result.push(item);
+                }
+                else {
+                    result[index] = item;
+                }
+            }
+            return result;
+        }
         const cacheAdapter = cache?.adapter(resource, cacheConfig, true);
+        const tabChannel = crossTab ? createTabChannel<T>(`@enymo/react-resource-hook:${resource}`, transforms) : null;
+        const isLeader = () => tabChannel === null || tabChannel.isLeader();
+
+        // Items are shared between all hooks of the same resource that are not using a ResourceProvider
+        if (!stores.has(resource)) {
+            stores.set(resource, createEntityStore(uniqueIdentifierCallback));
+        }
+        const entityStore = stores.get(resource) as EntityStore<T>;
+        const middleware = [...factoryMiddleware, ...resourceMiddleware];
+        // Mutations of all hooks of the resource are collected in the same batch
+        const coalesceActions = coalesce === undefined ? null : createCoalescer(coalesce);
+
+        const {maxAttempts = 5, retryDelay = 1000} = typeof cacheConfig.outbox === "object" ? cacheConfig.outbox : {};
+        const outboxListeners = new Set<() => void>();
+        // Outboxes are scoped by params like the cache entries. Each scope is replayed on its own
+        const replaying = new Map<string, Promise<void>>();
+        const retryTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
+        const notifyOutbox = () => {
+            for (const listener of outboxListeners) {
+                listener();
+            }
+        }
+
+        // Temporary ids of optimistically stored items, mapped to the id assigned by the backend
+        const temporaryIds = new Map<Resource["id"], Promise<Resource["id"]>>();
+        const resolvedIds = new Map<Resource["id"], Resource["id"]>();
+        const registerTemporaryId = (temporaryId: Resource["id"], promise: Promise<Resource>) => {
+            const mapped = promise.then(({id}) => {
+                resolvedIds.set(temporaryId, id);
+                return id;
+            });
+            mapped.catch(() => {}); // Failures are reported to the caller of store
+            temporaryIds.set(temporaryId, mapped);
+        }
+        const resolveTemporaryId = async <T extends Resource["id"]>(id: T) => await (temporaryIds.get(id) ?? id) as T;
     
         const useResource = (({
             id,
             params,
             sorter,
+            paginate,
             onCreated,
             onUpdated,
             onDestroyed,
+            onRollback,
             autoRefresh = true,
+            revalidate,
+            pollInterval,
+            history: historyConfig = false,
             ignoreContext = false,
             ...resourceConfig
-        }: OptionsImplementation<T, U> & Partial<UseConfig> = {}) => {
+        }: OptionsImplementation<T, U, V> & Partial<UseConfig> = {}) => {
             const isArray = useCallback((input: T | T[] | null): input is T[] => {
                 return id === undefined;
             }, [id]);
 
-            const actions = useActions<T>(resourceConfig as Partial<UseConfig>, params);
-            const cacheActions = cacheAdapter?.actionHook<T>({});
+            const listKey = useMemo(() => JSON.stringify(params ?? null), [params]);
+            const [error, setError] = useState<Error | null>(null);
+            const [retryCount, setRetryCount] = useState(0);
+            const [nextRetryAt, setNextRetryAt] = useState<number | null>(null);
+            const retrying = useCallback(<R,>(request: () => Promise<R>, policy: RetryPolicy | false | undefined, signal?: AbortSignal) => withRetry(request, policy ?? resourceRetry, signal, (retryCount, nextRetryAt) => {
+                setRetryCount(retryCount);
+                setNextRetryAt(nextRetryAt);
+            }), [setRetryCount, setNextRetryAt]);
+            const adapterActions = useActions<T>(resourceConfig as Partial<UseConfig>, params);
+            const actions = useMemo(() => {
+                const transformed = transforms === null ? adapterActions : transformActions(adapterActions, transforms);
+                const validated = validation === null ? transformed : validateActions(transformed, validation, setError);
+                const coalesced = coalesceActions === null ? validated : coalesceActions(validated, listKey);
+                return middleware.length === 0 ? coalesced : applyMiddleware(coalesced, middleware, resource, params);
+            }, [adapterActions, listKey]);
+            const cacheAdapterActions = cacheAdapter?.actionHook<T>({}, params);
+            const cacheActions = useMemo(() => transforms === null || cacheAdapterActions === undefined ? cacheAdapterActions : transformCacheActions(cacheAdapterActions, transforms), [cacheAdapterActions]);
 
             const resourceContext = useContext(ResourceContext);
 
-            const [localState, setState] = useState<T[] | T | null>(id === undefined ? [] : null);
+            const requestKey = useMemo(() => JSON.stringify([id ?? null, listKey]), [id, listKey]);
+            const {
+                staleTime = 0,
+                onFocus: revalidateOnFocus = false,
+                onVisibilityChange: revalidateOnVisibilityChange = false,
+                onReconnect: revalidateOnReconnect = true
+            } = {...factoryRevalidate, ...revalidate};
+            const localState = useSyncExternalStore(entityStore.subscribe, () => id === undefined ? entityStore.getList(listKey) : id === null ? null : entityStore.getItem(id));
+            const setState = useCallback((action: SetStateAction<T[] | T | null>) => {
+                if (id === undefined) {
+                    entityStore.setList(listKey, (typeof action === "function" ? action(entityStore.getList(listKey)) : action) as T[]);
+                }
+                else if (id !== null) {
+                    const next = typeof action === "function" ? action(entityStore.getItem(id)) : action;
+                    if (next === null) {
+                        entityStore.removeItem(id);
+                    }
+                    else {
+                        entityStore.setItem(next as T);
+                    }
+                }
+            }, [id, listKey]);
             const state = useMemo(() => {
                 if (!ignoreContext && isNotNull(resourceContext)) {
                     if (id === undefined) {
@@ -96,8 +337,44 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
             const sortedState = useMemo(() => (!isArray(state) || !sorter) ? state : [...state].sort(sorter), [state, sorter, isArray]);
 
             const [meta, setMeta] = useState<V | null>(null);
-            const [error, setError] = useState<Error | null>(null);
-            const [loading, setLoading] = useState(autoRefresh);
+            // Items that have been loaded before (e.g. by another hook) are shown while being revalidated
+            const [loading, setLoading] = useState(() => autoRefresh && entityStore.getLoadedAt(requestKey) === undefined);
+            const [isValidating, setIsValidating] = useState(false);
+            const [nextPage, setNextPage] = useState<PageRequest | null>(null);
+            // Inline paginate options must not create a new refresh on every render. Only the type and limit change the requests
+            const paginateRef = useRef(paginate);
+            paginateRef.current = paginate;
+            const paginateKey = paginate && JSON.stringify({type: paginate.type, limit: paginate.limit});
+            const [loadingMore, setLoadingMore] = useState(false);
+            const loadMoreController = useRef<AbortController | null>(null);
+            // Request key of the list further pages have been loaded for
+            const loadedMore = useRef<string | null>(null);
+            // Socket events received while a refresh is in flight. Applied on top of the refresh response
+            const refreshing = useRef(0);
+            const eventBuffer = useRef<Delta<T>[]>([]);
+            const refreshSequence = useRef(0);
+            // Sequence number of the latest mutation issued for every item. Entries are kept, so responses of older mutations can still be recognized
+            const mutationSequences = useRef(new Map<T["id"], number>());
+            const mutationSequence = useRef(0);
+            const [conflicts, setConflicts] = useState<Conflict<T>[]>([]);
+            const [outbox, setOutbox] = useState<Mutation<T>[]>([]);
+            const [mutationState, setMutationState] = useState<{
+                pending: Map<T["id"], number>,
+                errors: Map<T["id"], Error>
+            }>(() => ({pending: new Map(), errors: new Map()}));
+            const pending = useMemo(() => new Set(mutationState.pending.keys()), [mutationState.pending]);
+            const historyLimit = typeof historyConfig === "object" ? historyConfig.limit ?? 100 : 100;
+            const [history, setHistoryState] = useState<{
+                past: HistoryEntry<T>[],
+                future: HistoryEntry<T>[]
+            }>({past: [], future: []});
+            // Mirrored in a ref, so consecutive calls to undo and redo see each others changes before rerendering
+            const historyRef = useRef(history);
+            const setHistory = useCallback((action: (history: typeof historyRef.current) => typeof historyRef.current) => {
+                historyRef.current = action(historyRef.current);
+                setHistoryState(historyRef.current);
+            }, [setHistoryState]);
+            const outboxEnabled = !!cacheConfig.outbox && isNotNull(cacheActions?.getOutbox) && isNotNull(cacheActions?.putOutbox) && isNotNull(cacheActions?.removeOutbox);
 
             const handleConflict = useCallback((local: T | null, common: T | null, remote: T | null) => {
                 const id = uniqueIdentifierCallback(requireNotNull(local ?? remote, "local and remote must not both be null"));
@@ -107,10 +384,6 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
                     }
                     throw new ConflictError();
                 }
-                catch (e) {
-                    throw e;
-                }
-                /* TODO: Implement manual conflict handling
                 catch (e) {
                     if (e instanceof ConflictError) {
                         setConflicts(conflicts => conflicts.some(conflict => conflict.id === id)
@@ -120,13 +393,12 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
                     }
                     throw e;
                 }
-                */
-            }, []);
+            }, [setConflicts]);
         
             const handleCreated = useCallback((item: T) => {
                 if (onCreated?.(item) ?? true) {
                     const id = uniqueIdentifierCallback(item);
-                    setState(prev => ((prev as T[]).find(s => s.id == item.id)) ? (prev as T[]).map(s => s.id == item.id ? {
+                    setState(prev => ((prev as T[]).find(s => s.id == item.id)) ? (prev as T[]).map(s => s.id == item.id && !isOutdated(s, item) ? {
                         ...s,
                         ...item
                     } : s) : [...prev as T[], item]);
@@ -136,54 +408,405 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
             const handleUpdated = useCallback((item: DeepPartial<T>) => {
                 if (onUpdated?.(item) ?? true) {
                     const {id, ...rest} = item;
-                    setState(prev => isArray(prev) ? (prev.map(s => s.id == id ? {
+                    setState(prev => isArray(prev) ? (prev.map(s => s.id == id && !isOutdated(s, item) ? {
                         ...s,
                         ...rest
-                    } : s)) : {...prev, ...rest} as unknown as T)
+                    } : s)) : prev !== null && isOutdated(prev, item) ? prev : {...prev, ...rest} as unknown as T)
                 }
             }, [onUpdated, setState]);
 
+            const issueMutation = useCallback((...ids: T["id"][]) => {
+                const sequence = ++mutationSequence.current;
+                for (const id of ids) {
+                    mutationSequences.current.set(id, sequence);
+                }
+                return sequence;
+            }, []);
+
+            // Responses are only applied if no newer mutation has been issued for the same item in the meantime
+            const isLatestMutation = useCallback((id: T["id"], sequence: number) => (mutationSequences.current.get(id) ?? sequence) <= sequence, []);
+
             const handleDestroyed = useCallback((delId: T["id"]) => {
                 if (onDestroyed?.(delId) ?? true) {
-                    setState(prev => isArray(prev) ? prev.filter(s => s.id !== delId) : null);
+                    // Destroyed items are removed from every list of the resource, not only the current one
+                    entityStore.removeItem(delId);
+                }
+            }, [onDestroyed]);
+
+            const findItem = useCallback((itemId: T["id"]) => {
+                return isArray(state) ? state.find(item => item.id === itemId) ?? null : state;
+            }, [state, isArray]);
+
+            const invertUpdate = useCallback((itemId: T["id"], update: object): Delta<T>[] => {
+                const previous = findItem(itemId);
+                return previous === null ? [] : [{
+                    action: "update",
+                    id: itemId,
+                    update: Object.fromEntries(Object.keys(update).map(key => [key, previous[key as keyof T]])) as DeepPartial<T>
+                }];
+            }, [findItem]);
+
+            const invertDestroy = useCallback((itemId: T["id"]): Delta<T>[] => {
+                const previous = findItem(itemId);
+                return previous === null ? [] : [{
+                    action: "store",
+                    id: itemId,
+                    resource: previous
+                }];
+            }, [findItem]);
+
+            const withRollback = useCallback(async <R,>(promise: Promise<R>, inverse: Delta<T>[], sequence?: number) => {
+                try {
+                    return await promise;
                 }
-            }, [onDestroyed, setState]);
+                catch (e) {
+                    // Items changed by a newer mutation in the meantime are not rolled back, so the newer values are kept
+                    const rollback = sequence === undefined ? inverse : inverse.filter(delta => isLatestMutation(delta.id, sequence));
+                    setState(prev => resolveDeltas(prev, ...rollback));
+                    onRollback?.(rollback, e);
+                    throw e;
+                }
+            }, [setState, onRollback, isLatestMutation]);
+        
+            // Updates may move an item into or out of the current list
+            const handleUpdatedEvent = useCallback((item: DeepPartial<T> & Resource) => {
+                if (id !== undefined || !matches) {
+                    return handleUpdated(item);
+                }
+                const current = (state as T[]).find(s => s.id == item.id);
+                if (current !== undefined && isOutdated(current, item)) {
+                    return;
+                }
+                const merged = {...current, ...item} as T;
+                if (!matches(merged, params)) {
+                    current !== undefined && setState(prev => (prev as T[]).filter(s => s.id != item.id));
+                }
+                else if (current === undefined) {
+                    // Partial payloads and items of pages that haven't been loaded must not be added
+                    if (matchesOption && !paginate && (validation === null || validation.isValid(item))) {
+                        handleCreated(item as T);
+                    }
+                }
+                else {
+                    handleUpdated(item);
+                }
+            }, [id, state, listKey, paginateKey, setState, handleCreated, handleUpdated]);
+
+            // Invalid events are reported and ignored unless 'onInvalid' is 'warn'
+            const validateEvent = useCallback(<P,>(payload: P, partial: boolean) => {
+                if (validation === null) {
+                    return payload;
+                }
+                try {
+                    const {keep, data, error} = validation.validate(payload, "event", partial);
+                    if (error !== null) {
+                        setError(error);
+                    }
+                    return keep ? data : undefined;
+                }
+                catch (e) {
+                    setError(e as ValidationError);
+                    return undefined;
+                }
+            }, [setError]);
+        
+            // Changes received through events or from other tabs
+            const receiveCreated = useCallback((item: T) => (!matches || matches(item, params)) && (refreshing.current > 0
+                ? (onCreated?.(item) ?? true) && eventBuffer.current.push({action: "store", id: item.id, resource: item})
+                : handleCreated(item)
+            ), [listKey, onCreated, handleCreated]);
+
+            const receiveUpdated = useCallback((item: DeepPartial<T> & Resource) => refreshing.current > 0
+                ? (onUpdated?.(item) ?? true) && eventBuffer.current.push({action: "update", id: item.id, update: item})
+                : (id === undefined || (state !== null && item.id === (state as T).id)) && handleUpdatedEvent(item),
+            [id, state, onUpdated, handleUpdatedEvent]);
+
+            const receiveDestroyed = useCallback((delId: T["id"]) => refreshing.current > 0
+                ? (onDestroyed?.(delId) ?? true) && eventBuffer.current.push({action: "destroy", id: delId})
+                : (id === undefined || (state !== null && delId === (state as T).id)) && handleDestroyed(delId),
+            [id, state, onDestroyed, handleDestroyed]);
         
             useEvent<T>(
                 params,
                 "created", 
-                async item => !loading && handleCreated(item),
+                async raw => {
+                    const item = validateEvent(raw, false);
+                    return item !== undefined && receiveCreated(item);
+                },
                 (ignoreContext || !isNotNull(resourceContext)) && id === undefined,
-                [loading, handleCreated]
+                [receiveCreated, validateEvent]
             );
             useEvent<DeepPartial<T> & Resource>(
                 params,
                 "updated",
-                async item => (!loading && (id === undefined || item.id === (state as T).id)) && handleUpdated(item),
+                async raw => {
+                    const item = validateEvent(raw, true);
+                    return item !== undefined && receiveUpdated(item);
+                },
                 (ignoreContext || !isNotNull(resourceContext)),
-                [id, state, loading, handleUpdated]
+                [receiveUpdated, validateEvent]
             );
             useEvent<T["id"]>(
                 params,
                 "destroyed",
-                delId => !loading && (id === undefined || delId === (state as T).id) && handleDestroyed(delId),
+                receiveDestroyed,
                 (ignoreContext || !isNotNull(resourceContext)),
-                [id, state, loading, handleDestroyed]
+                [receiveDestroyed]
             );
+
+            useEffect(() => {
+                if (tabChannel !== null && id !== null && (ignoreContext || !isNotNull(resourceContext))) {
+                    return tabChannel.addListener(deltas => {
+                        for (const delta of deltas) {
+                            switch (delta.action) {
+                                case "store":
+                                    id === undefined && receiveCreated(delta.resource);
+                                    break;
+                                case "update":
+                                    receiveUpdated({...delta.update, id: delta.id} as DeepPartial<T> & Resource);
+                                    break;
+                                case "destroy":
+                                    receiveDestroyed(delta.id);
+                                    break;
+                            }
+                        }
+                    });
+                }
+            }, [id, ignoreContext, resourceContext, receiveCreated, receiveUpdated, receiveDestroyed]);
         
+            const loadOutbox = useCallback(async () => {
+                if (outboxEnabled) {
+                    const outbox = await cacheActions!.getOutbox!();
+                    setOutbox(prev => deepEquals(prev, outbox) ? prev : outbox);
+                }
+            }, [outboxEnabled, cacheActions?.getOutbox, setOutbox]);
+
+            const enqueue = useCallback(async (...deltas: Delta<T>[]) => {
+                if (outboxEnabled) {
+                    for (const delta of deltas) {
+                        await cacheActions!.putOutbox!({
+                            key: uniqueKey(),
+                            delta,
+                            attempts: 0,
+                            dead: false
+                        });
+                    }
+                    notifyOutbox();
+                }
+            }, [outboxEnabled, cacheActions?.putOutbox]);
+
+            const syncStored = useCallback(async (local: T[], remote: T[]) => {
+                for (const [index, item] of remote.entries()) {
+                    if (local[index].id !== item.id) {
+                        // Cache entry was stored under a local id. Replace it with the item returned from the backend
+                        await cacheActions!.destroy(local[index].id, undefined);
+                        await cacheActions!.store(item, undefined);
+                    }
+                }
+                await cacheActions!.sync(...local.map(item => item.id), ...remote.map(item => item.id));
+            }, [cacheActions?.destroy, cacheActions?.store, cacheActions?.sync]);
+
+            const replayMutation = useCallback(async (delta: Delta<T>) => {
+                switch (delta.action) {
+                    case "store": {
+                        const result = await actions.store(delta.resource, undefined);
+                        if (result.id !== delta.id) {
+                            // Item received its final id from the backend. Replace the local entry and re-target queued mutations
+                            await cacheActions!.destroy(delta.id, undefined);
+                            await cacheActions!.store(result, undefined);
+                            for (const mutation of await cacheActions!.getOutbox!()) {
+                                if (mutation.delta.id === delta.id && mutation.delta.action !== "store") {
+                                    await cacheActions!.putOutbox!({
+                                        ...mutation,
+                                        delta: {
+                                            ...mutation.delta,
+                                            id: result.id
+                                        }
+                                    });
+                                }
+                            }
+                            if (id === undefined) {
+                                handleDestroyed(delta.id);
+                            }
+                        }
+                        await cacheActions!.sync(delta.id, result.id);
+                        if (id === undefined) {
+                            handleCreated(result);
+                        }
+                        tabChannel?.broadcast({action: "store", id: result.id, resource: result});
+                        break;
+                    }
+                    case "update": {
+                        const result = await actions.update(delta.id, delta.update, undefined);
+                        handleUpdated(result);
+                        await cacheActions!.sync(delta.id);
+                        tabChannel?.broadcast({action: "update", id: delta.id, update: result});
+                        break;
+                    }
+                    case "destroy":
+                        await actions.destroy(delta.id, undefined);
+                        await cacheActions!.sync(delta.id);
+                        tabChannel?.broadcast(delta);
+                        break;
+                }
+            }, [id, actions.store, actions.update, actions.destroy, cacheActions?.store, cacheActions?.destroy, cacheActions?.sync, cacheActions?.getOutbox, cacheActions?.putOutbox, handleCreated, handleUpdated, handleDestroyed]);
+
+            const replayOutbox = useCallback((): Promise<void> => {
+                if (!outboxEnabled || !isLeader()) {
+                    return Promise.resolve();
+                }
+                const running = replaying.get(listKey);
+                if (running !== undefined) {
+                    return running;
+                }
+                const promise = (async () => {
+                    try {
+                        clearTimeout(retryTimeouts.get(listKey));
+                        retryTimeouts.delete(listKey);
+                        for (const mutation of await cacheActions!.getOutbox!()) {
+                            if (mutation.dead) continue;
+                            try {
+                                await replayMutation(mutation.delta);
+                                await cacheActions!.removeOutbox!(mutation.key);
+                            }
+                            catch (e) {
+                                if (e instanceof OfflineError) {
+                                    // Still offline. Replay will be triggered again once back online
+                                    break;
+                                }
+                                const attempts = mutation.attempts + 1;
+                                const dead = attempts >= maxAttempts;
+                                await cacheActions!.putOutbox!({
+                                    ...mutation,
+                                    attempts,
+                                    dead,
+                                    error: e instanceof Error ? e.message : String(e)
+                                });
+                                if (!dead) {
+                                    // Keep the order of mutations by retrying this one before continuing with the rest
+                                    retryTimeouts.set(listKey, setTimeout(() => {
+                                        retryTimeouts.delete(listKey);
+                                        replayOutbox();
+                                    }, retryDelay * 2 ** (attempts - 1)));
+                                    break;
+                                }
+                            }
+                            finally {
+                                notifyOutbox();
+                            }
+                        }
+                    }
+                    finally {
+                        replaying.delete(listKey);
+                    }
+                })();
+                replaying.set(listKey, promise);
+                return promise;
+            }, [outboxEnabled, listKey, replayMutation, cacheActions?.getOutbox, cacheActions?.putOutbox, cacheActions?.removeOutbox]);
+
+            const retryMutation = useCallback(async (key: string) => {
+                const mutation = requireNotNull(outbox.find(mutation => mutation.key === key), `No mutation with key '${key}'`);
+                await cacheActions!.putOutbox!({
+                    ...mutation,
+                    attempts: 0,
+                    dead: false
+                });
+                notifyOutbox();
+                await replayOutbox();
+            }, [outbox, cacheActions?.putOutbox, replayOutbox]);
+
+            const discardMutation = useCallback(async (key: string) => {
+                if (outboxEnabled) {
+                    await cacheActions!.removeOutbox!(key);
+                    notifyOutbox();
+                }
+            }, [outboxEnabled, cacheActions?.removeOutbox]);
+
+            const track = useCallback(async <R,>(ids: T["id"][], promise: Promise<R>) => {
+                setMutationState(({pending, errors}) => {
+                    const nextPending = new Map(pending);
+                    const nextErrors = new Map(errors);
+                    for (const id of ids) {
+                        nextPending.set(id, (nextPending.get(id) ?? 0) + 1);
+                        nextErrors.delete(id);
+                    }
+                    return {pending: nextPending, errors: nextErrors};
+                });
+                let error: Error | null = null;
+                try {
+                    return await promise;
+                }
+                catch (e) {
+                    error = e as Error;
+                    throw e;
+                }
+                finally {
+                    setMutationState(({pending, errors}) => {
+                        const nextPending = new Map(pending);
+                        const nextErrors = new Map(errors);
+                        for (const id of ids) {
+                            const count = (nextPending.get(id) ?? 1) - 1;
+                            if (count === 0) {
+                                nextPending.delete(id);
+                            }
+                            else {
+                                nextPending.set(id, count);
+                            }
+                            if (error !== null) {
+                                nextErrors.set(id, error);
+                            }
+                        }
+                        return {pending: nextPending, errors: nextErrors};
+                    });
+                }
+            }, [setMutationState]);
+
+            const resolveId = useCallback((id: T["id"]) => (resolvedIds.get(id) ?? id) as T["id"], []);
+
+            const isPending = useCallback((id: T["id"]) => mutationState.pending.has(id), [mutationState.pending]);
+            const getError = useCallback((id: T["id"]) => mutationState.errors.get(id) ?? null, [mutationState.errors]);
+
+            const replaceTemporaryItem = useCallback((temporaryId: T["id"], result: T) => {
+                setState(prev => (prev as T[]).some(item => item.id === result.id)
+                    // Created event for the item has been received before the response
+                    ? (prev as T[]).filter(item => item.id !== temporaryId)
+                    : (prev as T[]).map(item => item.id === temporaryId ? result : item)
+                );
+                entityStore.removeItem(temporaryId);
+            }, [setState]);
+
+            const record = useCallback((deltas: Delta<T>[], inverse: Delta<T>[], options?: Options<RequestConfig, CacheRequestConfig>) => {
+                if (historyConfig && (options?.history ?? true)) {
+                    setHistory(({past}) => ({
+                        past: [...past, {deltas, inverse}].slice(-historyLimit),
+                        future: []
+                    }));
+                }
+            }, [historyConfig, historyLimit, setHistory]);
+
+            const recordStored = useCallback((items: T[], options?: Options<RequestConfig, CacheRequestConfig>) => {
+                record(
+                    items.map(item => ({action: "store", id: item.id, resource: item})),
+                    items.map(item => ({action: "destroy", id: item.id})),
+                    options
+                );
+            }, [record]);
+
             const store = useCallback(async (item: DeepPartial<U> = {} as DeepPartial<U>, options?: Options<RequestConfig, CacheRequestConfig>) => {            
                 const updateMethod = options?.updateMethod ?? defaultUpdateMethod;
                 const promise = updateMethod !== "local-only" ? (async () => {
                     const cache = options?.cache?.enabled ?? cacheConfig.defaultEnabled ?? false;
                     const cacheResult = cache && await cacheActions?.store(item, options?.cache?.config);
                     try {
-                        const result = await actions.store(item, options?.config)
-                        cache && await cacheActions?.sync((item as Resource).id);
+                        const result = await retrying(async () => await actions.store(item, options?.config), options?.retry);
+                        tabChannel?.broadcast({action: "store", id: result.id, resource: result});
+                        cacheResult && await syncStored([cacheResult], [result]);
                         return result;
                     }
                     catch (e) {
                         if (e instanceof OfflineError) {
                             if (!cacheResult) throw e.originalError;
+                            await enqueue({action: "store", id: cacheResult.id, resource: item as unknown as T});
                             return cacheResult;
                         }
                         throw e;
@@ -193,19 +816,28 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
                     const result = await promise!;
                     if (id === undefined) {
                         handleCreated(result);
+                        recordStored([result], options);
                     }
                     return result;
                 }
                 else {
-                    handleCreated(item as T);
+                    const temporaryId = createTemporaryId();
+                    const temporaryItem = {...item, id: temporaryId} as unknown as T;
+                    handleCreated(temporaryItem);
                     if (updateMethod !== "local-only") {
-                        const result = await promise!;
-                        setState(prev => (prev as T[]).map(i => i === item ? result : i));
+                        registerTemporaryId(temporaryId, promise!);
+                        const result = await withRollback(promise!, [{
+                            action: "destroy",
+                            id: temporaryId
+                        }]);
+                        replaceTemporaryItem(temporaryId, result);
+                        recordStored([result], options);
                         return result;
                     }
-                    return item;
+                    recordStored([temporaryItem], options);
+                    return temporaryItem;
                 }
-            }, [actions.store, cacheActions?.store, setState, handleCreated]);
+            }, [retrying, actions.store, cacheActions?.store, handleCreated, enqueue, syncStored, withRollback, replaceTemporaryItem, recordStored]);
 
             const batchStore = useCallback(async (items: DeepPartial<U>[], options?: Options<RequestConfig, CacheRequestConfig>) => {
                 const updateMethod = options?.updateMethod ?? defaultUpdateMethod;
@@ -213,13 +845,15 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
                     const cache = options?.cache?.enabled ?? cacheConfig.defaultEnabled ?? false;
                     const cacheResult = cache && await cacheActions?.batchStore(items, options?.cache?.config);
                     try {
-                        const result = await actions.batchStore(items, options?.config);
-                        cache && await cacheActions?.sync(...items.map(item => (item as Resource).id));
+                        const result = await retrying(async () => await actions.batchStore(items, options?.config), options?.retry);
+                        tabChannel?.broadcast(...result.map(item => ({action: "store", id: item.id, resource: item} as const)));
+                        cacheResult && await syncStored(cacheResult, result);
                         return result;
                     }
                     catch (e) {
                         if (e instanceof OfflineError) {
                             if (!cacheResult) throw e.originalError;
+                            await enqueue(...cacheResult.map((result, index) => ({action: "store", id: result.id, resource: items[index] as unknown as T} as const)));
                             return cacheResult;
                         }
                         throw e;
@@ -231,24 +865,29 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
                         for (const item of result) {
                             handleCreated(item);
                         }
+                        recordStored(result, options);
                     }
                     return result;
                 }
                 else {
-                    for (const item of items) {
-                        handleCreated(item as T);
+                    const temporaryItems = items.map(item => ({...item, id: createTemporaryId()}) as unknown as T);
+                    for (const item of temporaryItems) {
+                        handleCreated(item);
                     }
                     if (updateMethod !== "local-only") {
-                        const result = await promise!;
-                        setState(prev => (prev as T[]).map(i => {
-                            const index = items.findIndex(item => i === item);
-                            return index === -1 ? i : result[index];
-                        }));
+                        temporaryItems.forEach((item, index) => registerTemporaryId(item.id, promise!.then(result => result[index])));
+                        const result = await withRollback(promise!, temporaryItems.map(item => ({
+                            action: "destroy",
+                            id: item.id
+                        } as const)));
+                        temporaryItems.forEach((item, index) => replaceTemporaryItem(item.id, result[index]));
+                        recordStored(result, options);
                         return result;
                     }
-                    return items;
+                    recordStored(temporaryItems, options);
+                    return temporaryItems;
                 }
-            }, [actions.batchStore, cacheActions?.batchStore, setState, handleCreated]);
+            }, [retrying, actions.batchStore, cacheActions?.batchStore, handleCreated, enqueue, syncStored, withRollback, replaceTemporaryItem, recordStored]);
         
             const updateList = useCallback(async (id: T["id"], update: DeepPartial<U>, options?: Options<RequestConfig, CacheRequestConfig>) => {
                 if (!ignoreContext && isNotNull(resourceContext)) {
@@ -257,25 +896,31 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
                 
                 const comparison = pruneUnchangedConfig ? isArray(state) ? state.find(item => item.id === id) ?? null : state : null;
                 const pruned = comparison ? pruneUnchanged(update, comparison) : update;
+                const inverse = invertUpdate(id, update);
                 const updateMethod = options?.updateMethod ?? defaultUpdateMethod;
-                const promise = updateMethod !== "local-only" ? (async () => {
+                const sequence = issueMutation(id);
+                const promise = updateMethod !== "local-only" ? track([id], (async () => {
+                    const targetId = await resolveTemporaryId(id);
                     const cache = options?.cache?.enabled ?? cacheConfig.defaultEnabled ?? false;
-                    const cacheResult = cache && await cacheActions?.update(id, pruned, options?.cache?.config);
+                    const cacheResult = cache && await cacheActions?.update(targetId, pruned, options?.cache?.config);
                     try {
-                        const result = await actions.update(id, pruned, options?.config);
-                        cache && await cacheActions?.sync(id);
+                        const result = await retrying(async () => await actions.update(targetId, pruned, options?.config), options?.retry);
+                        tabChannel?.broadcast({action: "update", id: targetId, update: result});
+                        cache && await cacheActions?.sync(targetId);
                         return result;
                     }
                     catch (e) {
                         if (e instanceof OfflineError) {
                             if (!cacheResult) throw e.originalError;
+                            await enqueue({action: "update", id: targetId, update: pruned as DeepPartial<T>});
                             return cacheResult;
                         }
                         throw e;
                     }
-                })() : null;
+                })()) : null;
                 if (updateMethod === "on-success") {
-                    handleUpdated(await promise!);
+                    const result = await promise!;
+                    isLatestMutation(id, sequence) && handleUpdated(result);
                 }
                 else {
                     handleUpdated({
@@ -283,10 +928,12 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
                         ...update
                     } as DeepPartial<T>);
                     if (promise) {
-                        handleUpdated(await promise!);
+                        const result = await withRollback(promise, inverse, sequence);
+                        isLatestMutation(id, sequence) && handleUpdated(result);
                     }
                 }
-            }, [state, resourceContext, ignoreContext, actions.update, cacheActions?.update, handleUpdated]);
+                record([{action: "update", id, update: update as DeepPartial<T>}], inverse, options);
+            }, [state, resourceContext, ignoreContext, retrying, actions.update, cacheActions?.update, handleUpdated, enqueue, invertUpdate, withRollback, track, record, issueMutation, isLatestMutation]);
         
             const updateSingle = useCallback((update: DeepPartial<U>, options?: Options<RequestConfig, CacheRequestConfig>) => {
                 return updateList(requireNotNull(id), update, options);
@@ -297,69 +944,86 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
                     return resourceContext.actions.batchUpdate(update, options);
                 }
                 
+                const inverse = update.flatMap(({id, ...rest}) => invertUpdate(id, rest));
                 const updateMethod = options?.updateMethod ?? defaultUpdateMethod;
-                const promise = updateMethod !== "local-only" ? (async () => {
-                    const pruned = update.map(update => {
+                const sequence = issueMutation(...update.map(update => update.id));
+                const promise = updateMethod !== "local-only" ? track(update.map(update => update.id), (async () => {
+                    const pruned = (await Promise.all(update.map(async update => {
                         const comparison = pruneUnchangedConfig ? (state as T[]).find(item => item.id === update.id) : undefined;
-                        return (comparison ? pruneUnchanged(update, comparison, ["id"]) : update) as DeepPartial<T> & Resource;
-                    }).filter(update => Object.keys(update).length > 1);
+                        return {
+                            ...(comparison ? pruneUnchanged(update, comparison, ["id"]) : update),
+                            id: await resolveTemporaryId(update.id)
+                        } as DeepPartial<T> & Resource;
+                    }))).filter(update => Object.keys(update).length > 1);
                     const cache = options?.cache?.enabled ?? cacheConfig.defaultEnabled ?? false;
-                    const cacheResult = cache && cacheActions?.batchUpdate(pruned, options?.cache?.config);
+                    const cacheResult = cache && await cacheActions?.batchUpdate(pruned, options?.cache?.config);
                     try {
-                        const result = actions.batchUpdate(pruned, options?.config);
-                        cache && cacheActions?.sync(...pruned.map(item => item.id));
+                        const result = await retrying(async () => await actions.batchUpdate(pruned, options?.config), options?.retry);
+                        tabChannel?.broadcast(...result.map((item, index) => ({action: "update", id: pruned[index].id, update: item} as const)));
+                        cache && await cacheActions?.sync(...pruned.map(item => item.id));
                         return result;
                     }
                     catch (e) {
                         if (e instanceof OfflineError) {
                             if (!cacheResult) throw e.originalError;
+                            await enqueue(...pruned.map(({id, ...update}) => ({action: "update", id, update: update as DeepPartial<T>} as const)));
                             return cacheResult;
                         }
                         throw e;
                     }
-                })() : null;
+                })()) : null;
                 if (updateMethod === "on-success") {
-                    (await promise!).map(update => handleUpdated(update));
+                    (await promise!).filter(update => isLatestMutation(update.id!, sequence)).map(update => handleUpdated(update));
                 }
                 else {
                     for (const item of update) {
                         handleUpdated(item as DeepPartial<T>);
                     }
                     if (promise) {
-                        for (const item of await promise!) {
+                        for (const item of (await withRollback(promise, inverse, sequence)).filter(item => isLatestMutation(item.id!, sequence))) {
                             handleUpdated(item);
                         }
                     }
                 }
-            }, [state, resourceContext, ignoreContext, actions.batchUpdate, cacheActions?.batchUpdate, handleUpdated]);
+                record(update.map(({id, ...rest}) => ({action: "update", id, update: rest as DeepPartial<T>})), inverse, options);
+            }, [state, resourceContext, ignoreContext, retrying, actions.batchUpdate, cacheActions?.batchUpdate, handleUpdated, enqueue, invertUpdate, withRollback, track, record, issueMutation, isLatestMutation]);
         
             const destroyList = useCallback(async (id: T["id"], options?: Options<RequestConfig, CacheRequestConfig>) => {
                 if (!ignoreContext && isNotNull(resourceContext)) {
                     return resourceContext.actions.destroy(id, options);
                 }
     
+                const inverse = invertDestroy(id);
                 const updateMethod = options?.updateMethod ?? defaultUpdateMethod;
-                const promise = updateMethod !== "local-only" && (async () => {
+                const sequence = issueMutation(id);
+                const promise = updateMethod !== "local-only" && track([id], (async () => {
+                    const targetId = await resolveTemporaryId(id);
                     const cache = options?.cache?.enabled ?? cacheConfig.defaultEnabled ?? false;
-                    cache && cacheActions?.destroy(id, options?.cache?.config);
+                    cache && await cacheActions?.destroy(targetId, options?.cache?.config);
                     try {
-                        actions.destroy(id, options?.config);
-                        cache && cacheActions?.sync(id);
+                        await retrying(async () => await actions.destroy(targetId, options?.config), options?.retry);
+                        tabChannel?.broadcast({action: "destroy", id: targetId});
+                        cache && await cacheActions?.sync(targetId);
                     }
                     catch (e) {
                         if (e instanceof OfflineError) {
                             if (!cache || !cacheActions) throw e.originalError;
+                            await enqueue({action: "destroy", id: targetId});
                             return;
                         }
                         throw e;
                     }
-                })();
-                if (updateMethod !== "immediate") {
+                })());
+                if (updateMethod === "immediate") {
+                    handleDestroyed(id);
+                    await withRollback(promise as Promise<void>, inverse, sequence);
+                }
+                else {
                     await promise;
+                    handleDestroyed(id);
                 }
-                handleDestroyed(id);
-                return promise;
-            }, [resourceContext, ignoreContext, actions.destroy, cacheActions?.destroy, handleDestroyed]);
+                record([{action: "destroy", id}], inverse, options);
+            }, [resourceContext, ignoreContext, retrying, actions.destroy, cacheActions?.destroy, handleDestroyed, enqueue, invertDestroy, withRollback, track, record, issueMutation]);
         
             const destroySingle = useCallback((options?: Options<RequestConfig, CacheRequestConfig>) => destroyList(requireNotNull(id), options), [destroyList, id]);
 
@@ -368,30 +1032,96 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
                     return resourceContext.actions.batchDestroy(ids, options);
                 }
 
+                const inverse = ids.flatMap(id => invertDestroy(id));
                 const updateMethod = options?.updateMethod ?? defaultUpdateMethod;
-                const promise = updateMethod !== "local-only" && (async () => {
+                const sequence = issueMutation(...ids);
+                const promise = updateMethod !== "local-only" && track(ids, (async () => {
+                    const targetIds = await Promise.all(ids.map(resolveTemporaryId));
                     const cache = options?.cache?.enabled ?? cacheConfig.defaultEnabled ?? false;
-                    cache && cacheActions?.batchDestroy(ids, options?.cache?.config);
+                    cache && await cacheActions?.batchDestroy(targetIds, options?.cache?.config);
                     try {
-                        actions.batchDestroy(ids, options?.config);
-                        cache && cacheActions?.sync(...ids);
+                        await retrying(async () => await actions.batchDestroy(targetIds, options?.config), options?.retry);
+                        tabChannel?.broadcast(...targetIds.map(id => ({action: "destroy", id} as const)));
+                        cache && await cacheActions?.sync(...targetIds);
                     }
                     catch (e) {
                         if (e instanceof OfflineError) {
                             if (!cache || !cacheActions) throw e.originalError;
+                            await enqueue(...targetIds.map(id => ({action: "destroy", id} as const)));
                             return;
                         }
                         throw e;
                     }
-                })();
-                if (updateMethod !== "immediate") {
+                })());
+                if (updateMethod === "immediate") {
+                    for (const id of ids) {
+                        handleDestroyed(id);
+                    }
+                    await withRollback(promise as Promise<void>, inverse, sequence);
+                }
+                else {
                     await promise;
+                    for (const id of ids) {
+                        handleDestroyed(id);
+                    }
                 }
-                for (const id of ids) {
-                    handleDestroyed(id);
+                record(ids.map(id => ({action: "destroy", id} as const)), inverse, options);
+            }, [ignoreContext, resourceContext, retrying, actions.batchDestroy, cacheActions?.batchDestroy, handleDestroyed, enqueue, invertDestroy, withRollback, track, record, issueMutation]);
+
+            const applyDeltas = useCallback(async (deltas: Delta<T>[]) => {
+                for (const delta of deltas) {
+                    switch (delta.action) {
+                        case "store": {
+                            const {id: previousId, ...item} = delta.resource;
+                            const result = await store(item as unknown as DeepPartial<U>, {history: false});
+                            if (result.id !== previousId) {
+                                // Item has been stored with a new id. Later entries must refer to the new id
+                                setHistory(({past, future}) => {
+                                    const remap = (delta: Delta<T>): Delta<T> => delta.id !== previousId ? delta : delta.action === "store" ? {
+                                        ...delta,
+                                        id: result.id,
+                                        resource: {...delta.resource, id: result.id}
+                                    } : {...delta, id: result.id};
+                                    const remapEntry = ({deltas, inverse}: HistoryEntry<T>) => ({deltas: deltas.map(remap), inverse: inverse.map(remap)});
+                                    return {past: past.map(remapEntry), future: future.map(remapEntry)};
+                                });
+                            }
+                            break;
+                        }
+                        case "update":
+                            await updateList(delta.id, delta.update as DeepPartial<U>, {history: false});
+                            break;
+                        case "destroy":
+                            await destroyList(delta.id, {history: false});
+                            break;
+                    }
                 }
-                return promise;
-            }, [ignoreContext, resourceContext, actions.batchDestroy, cacheActions?.batchDestroy, handleDestroyed]);
+            }, [store, updateList, destroyList, setHistory]);
+
+            const undo = useCallback(async () => {
+                if (!ignoreContext && isNotNull(resourceContext)) {
+                    return resourceContext.actions.undo();
+                }
+
+                const {past} = historyRef.current;
+                const entry = past[past.length - 1];
+                if (entry !== undefined) {
+                    setHistory(({past, future}) => ({past: past.slice(0, -1), future: [entry, ...future]}));
+                    await applyDeltas(entry.inverse);
+                }
+            }, [ignoreContext, resourceContext, setHistory, applyDeltas]);
+
+            const redo = useCallback(async () => {
+                if (!ignoreContext && isNotNull(resourceContext)) {
+                    return resourceContext.actions.redo();
+                }
+
+                const entry = historyRef.current.future[0];
+                if (entry !== undefined) {
+                    setHistory(({past, future}) => ({past: [...past, entry], future: future.slice(1)}));
+                    await applyDeltas(entry.deltas);
+                }
+            }, [ignoreContext, resourceContext, setHistory, applyDeltas]);
         
             const query = useCallback(async (action: string, data: any, params?: Params, config?: RequestConfig) => {
                 const response = await actions.query(action, data, params, config);
@@ -408,25 +1138,123 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
                 }
             }, [actions.query, setState, handleCreated, handleDestroyed]);
 
+            const resolveConflict = useCallback(async (conflictId: string, resolution: T | null, config?: RequestConfig, cacheRequestConfig?: CacheRequestConfig) => {
+                const conflict = requireNotNull(conflicts.find(conflict => conflict.id === conflictId), `No conflict with id '${conflictId}'`);
+                const {local, remote} = conflict;
+                const syncIds = new Set<T["id"]>();
+
+                if (resolution === null) {
+                    await Promise.all([
+                        remote !== null && actions.destroy(remote.id, config),
+                        local !== null && cacheActions?.destroy(local.id, cacheRequestConfig)
+                    ]);
+                }
+                else {
+                    await Promise.all([
+                        (async () => {
+                            if (remote === null) {
+                                await actions.store(resolution, config);
+                            }
+                            else if (remote.id !== resolution.id) {
+                                await actions.destroy(remote.id, config);
+                                await actions.store(resolution, config);
+                            }
+                            else {
+                                const {id, ...rest} = resolution;
+                                await actions.update(id, rest, config);
+                            }
+                        })(),
+                        (async () => {
+                            if (local === null) {
+                                await cacheActions?.store(resolution, cacheRequestConfig);
+                            }
+                            else if (local.id !== resolution.id) {
+                                await cacheActions?.destroy(local.id, cacheRequestConfig);
+                                await cacheActions?.store(resolution, cacheRequestConfig);
+                            }
+                            else {
+                                const {id, ...rest} = resolution;
+                                await cacheActions?.update(id, rest, cacheRequestConfig);
+                            }
+                        })()
+                    ]);
+                    syncIds.add(resolution.id);
+                }
+
+                for (const item of [local, remote]) {
+                    if (item !== null) {
+                        syncIds.add(item.id);
+                    }
+                }
+                await cacheActions?.sync(...syncIds);
+
+                setConflicts(conflicts => conflicts.filter(conflict => conflict.id !== conflictId));
+                for (const item of [local, remote]) {
+                    if (item !== null && item.id !== resolution?.id) {
+                        handleDestroyed(item.id);
+                    }
+                }
+                if (resolution !== null) {
+                    handleCreated(resolution);
+                }
+            }, [conflicts, actions.store, actions.update, actions.destroy, cacheActions?.store, cacheActions?.update, cacheActions?.destroy, setConflicts, handleCreated, handleDestroyed]);
+
             const refresh = useCallback(async (options?: RefreshOptions<RequestConfig, CacheRequestConfig>) => {
                 if (ignoreContext || !isNotNull(resourceContext)) {
+                    // Results of refreshes that have been superseded by a newer one are ignored
+                    const sequence = ++refreshSequence.current;
+                    const superseded = () => options?.signal?.aborted || sequence !== refreshSequence.current;
                     try {
                         setError(null);
                         if (id !== null) {
-                            setLoading(true);
+                            if (!options?.revalidate) {
+                                setLoading(true);
+                            }
+                            setIsValidating(true);
+                            refreshing.current++;
+                            const page = paginateRef.current && id === undefined ? firstPage(paginateRef.current) : undefined;
+                            // Background revalidation keeps the pages loaded since. The first page is merged into the list instead of replacing it
+                            const merge = !!options?.revalidate && page !== undefined && loadedMore.current === requestKey;
+                            if (!merge) {
+                                loadMoreController.current?.abort();
+                            }
                             try {
-                                const response = await (async () => {
+                                // Identical refreshes of several hooks running at the same time are sent as a single request
+                                const {response, fromRemote} = await entityStore.dedupe(`${requestKey}:${JSON.stringify(page ?? null)}`, options?.signal, signal => (async () => {
                                     const preferOffline = options?.cache?.preferOffline ?? cacheConfig.preferOffline ?? false;
                                     if (preferOffline && cacheActions?.refresh && id === undefined) {
-                                        const response = await cacheActions.refresh(undefined, options?.cache?.config, options?.signal);
+                                        const response = await cacheActions.refresh(undefined, options?.cache?.config, signal);
                                         if ((response.data as T[]).length > 0) {
-                                            return response;
+                                            return {response, fromRemote: false};
                                         }
                                     }
                                     try {
-                                        const response = await actions.refresh<V>(id, options?.config, options?.signal);
+                                        // Only the leader tab syncs the cache, so several tabs don't send the same local changes to the backend
+                                        const cacheEnabled = (options?.cache?.enabled ?? cacheConfig.defaultEnabled ?? false) && isLeader();
+                                        const incremental = cacheEnabled && !!cacheConfig.incremental && id === undefined && page === undefined
+                                            && isNotNull(cacheActions?.getCache) && isNotNull(cacheActions?.getCursor) && isNotNull(cacheActions?.putCursor);
+                                        const cursor = incremental ? await cacheActions!.getCursor!() : null;
+                                        const response = await (async () => {
+                                            if (cursor !== null) {
+                                                try {
+                                                    const response = await retrying(async () => await actions.refresh<V>(undefined, options?.config, signal, undefined, cursor), options?.retry, signal);
+                                                    if (response.deltas !== undefined) {
+                                                        // Rebuild the remote collection from the versions in the cache at the time of the last sync
+                                                        const synced = (await cacheActions!.getCache()).map(entry => entry.remote === undefined ? entry.local : entry.remote).filter(isNotNull);
+                                                        return {...response, data: resolveDeltas(synced, ...response.deltas)};
+                                                    }
+                                                    return response;
+                                                }
+                                                catch (e) {
+                                                    if (!(e instanceof CursorExpiredError)) throw e;
+                                                    await cacheActions!.putCursor!(null);
+                                                }
+                                            }
+                                            return await retrying(async () => await actions.refresh<V>(id, options?.config, signal, page), options?.retry, signal);
+                                        })();
 
-                                        if ((options?.cache?.enabled ?? cacheConfig.defaultEnabled ?? false) && cacheActions?.getCache && Array.isArray(response.data)) {
+                                        // Reconciliation requires the full collection and is therefore skipped for paginated resources
+                                        if (cacheEnabled && cacheActions?.getCache && Array.isArray(response.data) && page === undefined) {
                                             const cache = await cacheActions.getCache();
                                             const map = new Map(response.data.map(item => [uniqueIdentifierCallback(item), item]));
                                             const mapIds = new Set(map.keys());
@@ -440,11 +1268,24 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
                                             const localUpdate: T[] = [];
                                             const localDestroy: T["id"][] = [];
 
+                                            const unresolved = new Set<string>();
+                                            const queued = new Set(outboxEnabled ? (await cacheActions.getOutbox!()).map(mutation => mutation.delta.id) : []);
+
                                             for (const entry of cache) {
                                                 const id = uniqueIdentifierCallback(entry.remote ?? entry.local!);
                                                 // Remove any id present in changes so we can later see which remote entries are new
                                                 mapIds.delete(id);
                                                 const remote = map.get(id) ?? null;
+                                                if (queued.has(entry.id)) {
+                                                    // Item has pending mutations which will be sent by the outbox. Local entry has precedence
+                                                    if (entry.local === null) {
+                                                        map.delete(id);
+                                                    }
+                                                    else {
+                                                        map.set(id, entry.local);
+                                                    }
+                                                    continue;
+                                                }
                                                 if (entry.remote !== undefined) {
                                                     // Local entry was created / updated / destroyed since last sync
                                                     if (
@@ -526,9 +1367,11 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
                                                         }
                                                         catch (e) {
                                                             if (e instanceof ConflictError) {
-                                                                // Conflict resolution has failed! Skip item
+                                                                // Conflict resolution has failed! Skip item. It has been added to the conflicts and must be resolved manually
+                                                                unresolved.add(id);
                                                                 continue;
                                                             }
+                                                            throw e;
                                                         }
                                                     }
                                                     // If we get to here, sync has been handled successfully. Item will be marked as synced after write is done
@@ -586,69 +1429,269 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
                                             }
 
                                             await cacheActions.sync(...syncIds);
+                                            if (incremental && response.cursor !== undefined) {
+                                                await cacheActions.putCursor!(response.cursor);
+                                            }
+
+                                            // Conflicts which did not occur again have been resolved in the meantime
+                                            setConflicts(conflicts => conflicts.filter(conflict => unresolved.has(conflict.id)));
 
                                             return {
-                                                ...response,
-                                                data: [...map.values()]
+                                                response: {
+                                                    ...response,
+                                                    data: [...map.values()]
+                                                },
+                                                fromRemote: true
                                             }
                                         }
 
-                                        return response;
+                                        return {response, fromRemote: true};
                                     }
                                     catch (e) {
                                         if (e instanceof OfflineError) {
-                                            return (await cacheActions?.refresh(id, options?.cache?.config, options?.signal)) ?? {
-                                                data: null,
-                                                error: e.originalError,
-                                                meta: null
+                                            return {
+                                                response: (await cacheActions?.refresh(id, options?.cache?.config, signal)) ?? {
+                                                    data: null,
+                                                    error: e.originalError,
+                                                    meta: null
+                                                },
+                                                fromRemote: false
                                             }
                                         }
                                         throw e;
                                     }
-                                })();
-                                if (options?.signal?.aborted) return;
+                                })());
+                                if (superseded()) return;
 
-                                setMeta(response.meta);
-                                setState(response.data);
+                                if (fromRemote && response.error === null) {
+                                    entityStore.setLoadedAt(requestKey, Date.now());
+                                }
+                                const events = eventBuffer.current.splice(0);
+                                const data = response.data === null ? null : resolveDeltas(response.data, ...(versionOf ? discardOutdated(events, response.data, versionOf) : events));
+                                // Buffered updates may have moved items out of the list
+                                const updatedIds = new Set(events.filter(event => event.action === "update").map(event => event.id));
+                                const filter = <I extends T[] | T | null>(data: I) => (Array.isArray(data) && matches ? data.filter(item => !updatedIds.has(item.id) || matches(item, params)) : data) as I;
+                                const filtered = filter(data);
                                 setError(response.error);
+                                if (merge && fromRemote && Array.isArray(filtered)) {
+                                    // Items of the later pages receive the buffered events as well
+                                    setState(prev => Array.isArray(prev) ? mergePage(filter(resolveDeltas(prev, ...events)), filtered) : filtered);
+                                }
+                                else {
+                                    setState(filtered);
+                                    setMeta(response.meta);
+                                    setNextPage(page && fromRemote && Array.isArray(response.data) ? getNextPage(paginateRef.current!, page, response.meta as V, response.data) : null);
+                                    loadedMore.current = null;
+                                }
                             }
                             catch (e) {
-                                if (!options?.signal?.aborted) {
+                                if (!superseded()) {
+                                    if (e instanceof ValidationError) {
+                                        setError(e);
+                                    }
                                     throw e;
                                 }
                             }
+                            finally {
+                                refreshing.current--;
+                                if (refreshing.current === 0 && eventBuffer.current.length > 0) {
+                                    // The refresh failed or was aborted. Buffered events are applied to the current state instead
+                                    const events = eventBuffer.current.splice(0);
+                                    setState(prev => resolveDeltas(prev, ...events));
+                                }
+                            }
                         }
                         else {
                             setState(id === undefined ? [] : null);
                         }
                     }
                     finally {
-                        if (!options?.signal?.aborted) {
+                        if (!superseded()) {
                             setLoading(false);
+                            setIsValidating(false);
                         }
                     }
                 }
-            }, [setState, id, setLoading, setError, ignoreContext, resourceContext, actions.refresh]);
+            }, [setState, id, listKey, requestKey, setLoading, setIsValidating, setError, setNextPage, ignoreContext, resourceContext, retrying, actions.refresh, outboxEnabled, paginateKey]);
+
+            const isStale = useCallback(() => {
+                const loadedAt = entityStore.getLoadedAt(requestKey);
+                return loadedAt === undefined || Date.now() - loadedAt >= staleTime;
+            }, [requestKey, staleTime]);
+
+
+            const loadMore = useCallback(async () => {
+                if (nextPage === null || loading || loadingMore || id !== undefined) {
+                    return;
+                }
+                const abortController = new AbortController();
+                loadMoreController.current = abortController;
+                setLoadingMore(true);
+                try {
+                    const response = await actions.refresh<V>(undefined, undefined, abortController.signal, nextPage);
+                    if (abortController.signal.aborted) return;
+
+                    const data = response.data as T[];
+                    setMeta(response.meta);
+                    setState(prev => mergePage(prev as T[], data));
+                    setNextPage(getNextPage(paginateRef.current!, nextPage, response.meta, data));
+                    loadedMore.current = requestKey;
+                }
+                catch (e) {
+                    if (!abortController.signal.aborted) {
+                        throw e;
+                    }
+                }
+                finally {
+                    if (!abortController.signal.aborted) {
+                        setLoadingMore(false);
+                    }
+                }
+            }, [nextPage, loading, loadingMore, id, requestKey, actions.refresh, setMeta, setState, setNextPage, setLoadingMore, paginateKey]);
         
             useEffect(() => {
                 if (autoRefresh) {
+                    if (!isStale()) {
+                        setLoading(false);
+                        return;
+                    }
                     const abortController = new AbortController();
                     refresh({
-                        signal: abortController.signal
+                        signal: abortController.signal,
+                        revalidate: entityStore.getLoadedAt(requestKey) !== undefined
                     });
-                    return () => abortController.abort();
+                    return () => {
+                        abortController.abort();
+                        loadMoreController.current?.abort();
+                    }
                 }
-            }, [refresh, autoRefresh]);
+            }, [refresh, autoRefresh, isStale]);
+
+            useEffect(() => {
+                if (tabChannel !== null && autoRefresh && id !== null && (ignoreContext || !resourceContext) && (cacheConfig.defaultEnabled ?? false)) {
+                    // Refreshes sent before this tab became the leader skipped syncing the cache
+                    return tabChannel.addLeaderListener(() => refresh({revalidate: true}));
+                }
+            }, [autoRefresh, id, ignoreContext, resourceContext, refresh]);
+
+            useEffect(() => {
+                if (autoRefresh && id !== null && (ignoreContext || !resourceContext) && (revalidateOnFocus || revalidateOnVisibilityChange) && typeof window !== "undefined" && typeof document !== "undefined") {
+                    const handler = () => {
+                        if (document.visibilityState !== "hidden" && isStale()) {
+                            refresh({revalidate: true});
+                        }
+                    }
+                    revalidateOnFocus && window.addEventListener("focus", handler);
+                    revalidateOnVisibilityChange && document.addEventListener("visibilitychange", handler);
+                    return () => {
+                        window.removeEventListener("focus", handler);
+                        document.removeEventListener("visibilitychange", handler);
+                    }
+                }
+            }, [autoRefresh, id, ignoreContext, resourceContext, revalidateOnFocus, revalidateOnVisibilityChange, isStale, refresh]);
+
+            const poll = useCallback(async (signal: AbortSignal) => {
+                if (loading || id === null) {
+                    return;
+                }
+                try {
+                    const response = await actions.refresh<V>(id, undefined, signal, paginateRef.current && id === undefined ? firstPage(paginateRef.current) : undefined);
+                    if (signal.aborted || response.error !== null) return;
+
+                    if (isArray(state)) {
+                        const {created, updated, destroyed} = diff(state, response.data as T[]);
+                        for (const item of created) {
+                            handleCreated(item);
+                        }
+                        for (const item of updated) {
+                            handleUpdated(item as DeepPartial<T>);
+                        }
+                        if (!paginateRef.current) {
+                            for (const id of destroyed) {
+                                handleDestroyed(id);
+                            }
+                        }
+                    }
+                    else if (response.data === null) {
+                        state !== null && handleDestroyed(state.id);
+                    }
+                    else if (!deepEquals(state, response.data)) {
+                        handleUpdated(response.data as DeepPartial<T>);
+                    }
+                    if (!paginateRef.current) {
+                        setMeta(response.meta);
+                    }
+                    entityStore.setLoadedAt(requestKey, Date.now());
+                }
+                catch (e) {
+                    if (!signal.aborted && !(e instanceof OfflineError)) {
+                        setError(e as Error);
+                    }
+                }
+            }, [loading, id, state, requestKey, paginateKey, actions.refresh, handleCreated, handleUpdated, handleDestroyed, setMeta, setError]);
+
+            // Latest poll callback, so the interval doesn't need to be restarted whenever the state changes
+            const pollRef = useRef(poll);
+            pollRef.current = poll;
+
+            useEffect(() => {
+                if (pollInterval && id !== null && (ignoreContext || !resourceContext)) {
+                    const abortController = new AbortController();
+                    let offline = false;
+                    let polling = false;
+                    const removeOfflineListener = actions.addOfflineListener(value => {
+                        offline = value;
+                    });
+                    const interval = setInterval(async () => {
+                        if (!offline && !polling && (typeof document === "undefined" || document.visibilityState !== "hidden")) {
+                            polling = true;
+                            try {
+                                await pollRef.current(abortController.signal);
+                            }
+                            finally {
+                                polling = false;
+                            }
+                        }
+                    }, pollInterval);
+                    return () => {
+                        clearInterval(interval);
+                        abortController.abort();
+                        removeOfflineListener();
+                    }
+                }
+            }, [pollInterval, id, ignoreContext, resourceContext, actions.addOfflineListener]);
 
             useEffect(() => {
                 if (ignoreContext || !resourceContext) {
                     return actions.addOfflineListener(offline => {
                         if (!offline) {
-                            refresh();
+                            replayOutbox().finally(() => revalidateOnReconnect && refresh({revalidate: true}));
                         }
                     })
                 }
-            }, [actions.addOfflineListener, refresh]);
+            }, [actions.addOfflineListener, refresh, replayOutbox, revalidateOnReconnect]);
+
+            // The outbox is only loaded and replayed when it is enabled or its scope changes, not every time a callback changes
+            const loadOutboxRef = useRef(loadOutbox);
+            loadOutboxRef.current = loadOutbox;
+            const replayOutboxRef = useRef(replayOutbox);
+            replayOutboxRef.current = replayOutbox;
+
+            useEffect(() => {
+                if (outboxEnabled && (ignoreContext || !resourceContext)) {
+                    const load = () => loadOutboxRef.current();
+                    const replay = () => replayOutboxRef.current();
+                    outboxListeners.add(load);
+                    load();
+                    replay();
+                    // A tab taking over replays the outbox left behind by the previous leader
+                    const removeLeaderListener = tabChannel?.addLeaderListener(replay);
+                    return () => {
+                        outboxListeners.delete(load);
+                        removeLeaderListener?.();
+                    }
+                }
+            }, [outboxEnabled, ignoreContext, resourceContext, listKey]);
     
             useEffect(() => {
                 if (isNotNull(onCreated) && !ignoreContext && isNotNull(resourceContext)) {
@@ -667,36 +1710,74 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
                     return resourceContext.addDestroyedListener(onDestroyed);
                 }
             }, [onDestroyed, ignoreContext, resourceContext]);
+
+            useEffect(() => {
+                if (isNotNull(onRollback) && !ignoreContext && isNotNull(resourceContext)) {
+                    return resourceContext.addRollbackListener(onRollback);
+                }
+            }, [onRollback, ignoreContext, resourceContext]);
         
             return [
                 sortedState, 
                 {
                     ...(!ignoreContext && isNotNull(resourceContext) ? {
                         loading: resourceContext.actions.loading,
+                        isValidating: resourceContext.actions.isValidating,
                         refresh: resourceContext.actions.refresh,
                         error: resourceContext.actions.error,
+                        retryCount: resourceContext.actions.retryCount,
+                        nextRetryAt: resourceContext.actions.nextRetryAt,
                         meta: resourceContext.actions.meta,
+                        loadMore: resourceContext.actions.loadMore,
+                        hasMore: resourceContext.actions.hasMore,
+                        loadingMore: resourceContext.actions.loadingMore,
                         store: resourceContext.actions.store,
                         batchStore: resourceContext.actions.batchStore,
-                        query: resourceContext.actions.query
-                    } : {loading, refresh, error, meta, store, batchStore, query}), 
+                        query: resourceContext.actions.query,
+                        conflicts: resourceContext.actions.conflicts,
+                        resolveConflict: resourceContext.actions.resolveConflict,
+                        pendingMutations: resourceContext.actions.pendingMutations,
+                        deadMutations: resourceContext.actions.deadMutations,
+                        retryMutation: resourceContext.actions.retryMutation,
+                        discardMutation: resourceContext.actions.discardMutation,
+                        pending: resourceContext.actions.pending,
+                        isPending: resourceContext.actions.isPending,
+                        getError: resourceContext.actions.getError,
+                        resolveId: resourceContext.actions.resolveId,
+                        undo: resourceContext.actions.undo,
+                        redo: resourceContext.actions.redo,
+                        canUndo: resourceContext.actions.canUndo,
+                        canRedo: resourceContext.actions.canRedo
+                    } : {
+                        loading, isValidating, refresh, error, retryCount, nextRetryAt, meta, loadMore, loadingMore, store, batchStore, query, conflicts, resolveConflict, retryMutation, discardMutation, pending, isPending, getError, resolveId, undo, redo,
+                        canUndo: history.past.length > 0,
+                        canRedo: history.future.length > 0,
+                        hasMore: nextPage !== null,
+                        pendingMutations: outbox.filter(mutation => !mutation.dead).length,
+                        deadMutations: outbox.filter(mutation => mutation.dead)
+                    }), 
                     ...(id !== undefined 
                         ? {update: updateSingle, destroy: destroySingle} 
                         : {update: updateList, destroy: destroyList, batchUpdate, batchDestroy})
                 }
             ];
         }) as {
-            (options?: OptionsList<T, U>): [T[], ReturnList<RequestConfig, CacheRequestConfig, T, U, V>],
+            (options?: OptionsList<T, U, V>): [T[], ReturnList<RequestConfig, CacheRequestConfig, T, U, V>],
             (options:  OptionsSingle<T, U>): [T | null, ReturnSingle<RequestConfig, CacheRequestConfig, T, U>]
         }
     
-        const ResourceProvider = ({params, children}: {
+        const ResourceProvider = ({params, history, children}: {
             params?: Params,
+            /**
+             * Record the mutations of all hooks using this provider to allow undo and redo
+             */
+            history?: OptionsCommon<T, U>["history"],
             children: ReactNode
         }) => {
             const createdListeners = useRef(new Set<OnCreatedListener<T>>());
             const updatedListeners = useRef(new Set<OnUpdatedListener<T>>());
             const destroyedListeners = useRef(new Set<OnDestroyedListener<T>>());
+            const rollbackListeners = useRef(new Set<OnRollbackListener<T>>());
     
             const handleCreated = useCallback<OnCreatedListener<T>>(item => {
                 let result = true;
@@ -728,6 +1809,12 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
                 return result;
             }, [destroyedListeners]);
 
+            const handleRollback = useCallback<OnRollbackListener<T>>((deltas, error) => {
+                for (const listener of rollbackListeners.current) {
+                    listener(deltas, error);
+                }
+            }, [rollbackListeners]);
+
             const addCreatedListener = useCallback((listener: OnCreatedListener<T>) => {
                 createdListeners.current.add(listener);
                 return () => createdListeners.current.delete(listener);
@@ -741,13 +1828,20 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
             const addDestroyedListener = useCallback((listener: OnDestroyedListener<T>) => {
                 destroyedListeners.current.add(listener);
                 return () => destroyedListeners.current.delete(listener);
-            }, [destroyedListeners])
+            }, [destroyedListeners]);
+
+            const addRollbackListener = useCallback((listener: OnRollbackListener<T>) => {
+                rollbackListeners.current.add(listener);
+                return () => rollbackListeners.current.delete(listener);
+            }, [rollbackListeners]);
     
             const [state, actions] = useResource({
                 params,
+                history,
                 onCreated: handleCreated,
                 onUpdated: handleUpdated,
-                onDestroyed: handleDestroyed
+                onDestroyed: handleDestroyed,
+                onRollback: handleRollback
             });
     
             return (
@@ -756,7 +1850,8 @@ export default function createResourceFactory<ResourceConfig extends {}, CacheRe
                     actions,
                     addCreatedListener,
                     addUpdatedListener,
-                    addDestroyedListener
+                    addDestroyedListener,
+                    addRollbackListener
                 }}>
                     {children}
                 </ResourceContext.Provider>
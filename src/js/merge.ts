@@ -0,0 +1,108 @@
+import { ConflictError } from "./errors";
+import { Resource } from "./types";
+import { deepEquals, findChangedPathsRecursive } from "./util";
+
+/**
+ * Determines the merged value of a path that has been changed both locally and remotely
+ *  'local-wins' keeps the local value
+ *  'remote-wins' keeps the remote value
+ *  'newest-by-field' keeps the value of the version with the newer value in the 'newestField' (e.g. an update timestamp)
+ *  A callback receives the local, remote and common value of the path and returns the merged value. It may throw a ConflictError if the values can't be merged
+ */
+export type MergePolicy = "local-wins" | "remote-wins" | "newest-by-field" | ((local: any, remote: any, common: any, path: string) => any);
+
+const overlaps = (a: string, b: string) => a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`);
+
+const getPath = (input: any, path: string) => path.split(".").reduce((value, key) => value?.[key], input);
+
+function setPath(input: any, [key, ...rest]: string[], value: any): any {
+    const target = Array.isArray(input) ? [...input] : {...input};
+    if (rest.length > 0) {
+        target[key] = setPath(input?.[key] ?? {}, rest, value);
+    }
+    else if (value === undefined) {
+        delete target[key];
+    }
+    else {
+        target[key] = value;
+    }
+    return target;
+}
+
+/**
+ * Creates a conflict resolver performing a field-by-field three-way merge. Fields that were only changed on one side are merged automatically.
+ * Fields changed on both sides are resolved using the policy of the path (or its closest parent path) and the default policy otherwise.
+ * Throws a ConflictError if a field was changed to different values on both sides and no policy applies
+ * @param policies Policies per dot-separated path (e.g. 'address.street')
+ * @param defaultPolicy Policy for all paths without their own policy. Also used if the item was destroyed on one side and changed on the other
+ * @param newestField Field compared by the 'newest-by-field' policy. Defaults to 'updated_at'
+ */
+export function mergeConflictResolver<T extends Resource>({policies = {}, defaultPolicy, newestField = "updated_at"}: {
+    policies?: {[path: string]: MergePolicy},
+    defaultPolicy?: MergePolicy,
+    newestField?: string
+} = {}) {
+    const findPolicy = (path: string) => {
+        for (let segments = path.split("."); segments.length > 0; segments.pop()) {
+            const policy = policies[segments.join(".")];
+            if (policy !== undefined) {
+                return policy;
+            }
+        }
+        return defaultPolicy;
+    }
+
+    const resolve = (policy: MergePolicy | undefined, local: any, remote: any, common: any, path: string, localItem: T | null, remoteItem: T | null) => {
+        switch (policy) {
+            case "local-wins":
+                return local;
+            case "remote-wins":
+                return remote;
+            case "newest-by-field": {
+                const localVersion = getPath(localItem, newestField);
+                const remoteVersion = getPath(remoteItem, newestField);
+                if (localVersion === undefined || remoteVersion === undefined || localVersion === remoteVersion) {
+                    throw new ConflictError(`Unable to determine the newest version of '${path}'`);
+                }
+                return localVersion > remoteVersion ? local : remote;
+            }
+            case undefined:
+                throw new ConflictError(`'${path}' was changed both locally and remotely`);
+            default:
+                return policy(local, remote, common, path);
+        }
+    }
+
+    return (local: T | null, common: T | null, remote: T | null): T | null => {
+        if (local === null || remote === null) {
+            if (local === remote) {
+                return null;
+            }
+            // Destroyed on one side, changed on the other
+            return resolve(defaultPolicy, local, remote, common, "", local, remote);
+        }
+
+        const remoteChanged = findChangedPathsRecursive(common ?? {}, remote);
+        const resolved = new Set<string>();
+        let result: any = remote;
+        for (const path of findChangedPathsRecursive(common ?? {}, local)) {
+            const overlapping = remoteChanged.filter(remotePath => overlaps(path, remotePath));
+            if (overlapping.length === 0) {
+                result = setPath(result, path.split("."), getPath(local, path));
+                continue;
+            }
+            // Resolve at the outermost of the overlapping paths
+            const outermost = [path, ...overlapping].reduce((a, b) => a.length <= b.length ? a : b);
+            if (resolved.has(outermost)) {
+                continue;
+            }
+            resolved.add(outermost);
+            const localValue = getPath(local, outermost);
+            const remoteValue = getPath(remote, outermost);
+            if (!deepEquals(localValue, remoteValue)) {
+                result = setPath(result, outermost.split("."), resolve(findPolicy(outermost), localValue, remoteValue, getPath(common, outermost), outermost, local, remote));
+            }
+        }
+        return result;
+    }
+}
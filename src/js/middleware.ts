@@ -0,0 +1,83 @@
+import { ActionHookReturn, PageRequest, Params, Resource, SyncCursor } from "./types";
+
+export type MiddlewareAction = "store" | "batchStore" | "update" | "batchUpdate" | "destroy" | "batchDestroy" | "refresh" | "query";
+
+export interface ActionContext<RequestConfig> {
+    /**
+     * The name of the resource
+     */
+    resource: string,
+    action: MiddlewareAction,
+    /**
+     * The params of the hook. For 'query', the params passed to the query, which may be modified.
+     * For all other actions, the adapter is already bound to the params of the hook and changes are ignored.
+     * Use 'config' to add data to these requests instead, e.g. a tenant header with the REST adapter
+     */
+    params?: Params,
+    /**
+     * The id passed to 'update', 'destroy' and 'refresh'
+     */
+    id?: Resource["id"],
+    /**
+     * The item(s) passed to 'store' and 'update', the ids passed to 'batchDestroy' or the data passed to 'query'
+     */
+    payload?: any,
+    /**
+     * The request config passed to the adapter, which may be modified
+     */
+    config?: RequestConfig,
+    signal?: AbortSignal,
+    page?: PageRequest,
+    since?: SyncCursor,
+    /**
+     * The name of the query
+     */
+    query?: string
+}
+
+/**
+ * Wraps every request sent to the backend adapter.
+ * A middleware may modify the context before passing it to 'next', modify the result, skip the request by not calling 'next' or retry it by calling 'next' again.
+ * Errors thrown by a middleware are handled like errors of the adapter (e.g. 'immediate' updates are rolled back)
+ * @param context The action and its arguments
+ * @param next Calls the next middleware or the adapter
+ * @returns The result of the action
+ */
+export type Middleware<RequestConfig> = (context: ActionContext<RequestConfig>, next: (context: ActionContext<RequestConfig>) => Promise<any>) => Promise<any>;
+
+export function applyMiddleware<RequestConfig, T extends Resource>(actions: ActionHookReturn<RequestConfig, T>, middleware: Middleware<RequestConfig>[], resource: string, params: Params | undefined): ActionHookReturn<RequestConfig, T> {
+    const invoke = async (context: ActionContext<RequestConfig>) => {
+        switch (context.action) {
+            case "store":
+                return await actions.store(context.payload, context.config);
+            case "batchStore":
+                return await actions.batchStore(context.payload, context.config);
+            case "update":
+                return await actions.update(context.id!, context.payload, context.config);
+            case "batchUpdate":
+                return await actions.batchUpdate(context.payload, context.config);
+            case "destroy":
+                return await actions.destroy(context.id!, context.config);
+            case "batchDestroy":
+                return await actions.batchDestroy(context.payload, context.config);
+            case "refresh":
+                return await actions.refresh(context.id, context.config, context.signal, context.page, context.since);
+            case "query":
+                return await actions.query(context.query!, context.payload, context.params, context.config);
+        }
+    }
+
+    const run = middleware.reduceRight<(context: ActionContext<RequestConfig>) => Promise<any>>((next, middleware) => context => middleware(context, next), invoke);
+
+    return {
+        store: (payload, config) => run({resource, params, action: "store", payload, config}),
+        batchStore: (payload, config) => run({resource, params, action: "batchStore", payload, config}),
+        update: (id, payload, config) => run({resource, params, action: "update", id, payload, config}),
+        batchUpdate: (payload, config) => run({resource, params, action: "batchUpdate", payload, config}),
+        destroy: (id, config) => run({resource, params, action: "destroy", id, config}),
+        batchDestroy: (payload, config) => run({resource, params, action: "batchDestroy", payload, config}),
+        refresh: (id, config, signal, page, since) => run({resource, params, action: "refresh", id, config, signal, page, since}),
+        query: (query, payload, queryParams, config) => run({resource, params: queryParams, action: "query", query, payload, config}),
+        addOfflineListener: actions.addOfflineListener
+    }
+}
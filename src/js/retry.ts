@@ -0,0 +1,60 @@
+import { OfflineError, ResponseError } from "./errors";
+import { RetryPolicy } from "./types";
+
+const isRetryable = (error: unknown) => {
+    if (error instanceof ResponseError) {
+        return error.response.status === 408 || error.response.status === 429 || error.response.status >= 500;
+    }
+    return error instanceof Error && error.name === "TimeoutError";
+}
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+        signal?.removeEventListener("abort", abort);
+        resolve();
+    }, ms);
+    const abort = () => {
+        clearTimeout(timeout);
+        reject(signal!.reason);
+    }
+    signal?.addEventListener("abort", abort, {once: true});
+});
+
+/**
+ * Sends the given request, retrying it with exponential backoff according to the given policy
+ * @param onRetry Called with the number of retries so far and the timestamp of the next retry. Called with 0 and null once the request has settled
+ */
+export async function withRetry<R>(request: () => Promise<R>, policy: RetryPolicy | false | undefined, signal: AbortSignal | undefined, onRetry: (retryCount: number, nextRetryAt: number | null) => void): Promise<R> {
+    if (!policy) {
+        return await request();
+    }
+    const {
+        maxAttempts = 3,
+        delay = 1000,
+        maxDelay = 30000,
+        jitter = 0.5,
+        retryable = isRetryable
+    } = policy;
+    let attempt = 0;
+    try {
+        while (true) {
+            try {
+                return await request();
+            }
+            catch (e) {
+                attempt++;
+                if (attempt >= maxAttempts || signal?.aborted || e instanceof OfflineError || !retryable(e, attempt)) {
+                    throw e;
+                }
+                const backoff = Math.min(delay * 2 ** (attempt - 1), maxDelay) * (1 - Math.random() * jitter);
+                onRetry(attempt, Date.now() + backoff);
+                await wait(backoff, signal);
+            }
+        }
+    }
+    finally {
+        if (attempt > 0) {
+            onRetry(0, null);
+        }
+    }
+}
@@ -0,0 +1,154 @@
+import { Resource } from "./types";
+
+const emptyList: any[] = [];
+
+export interface EntityStore<T extends Resource> {
+    subscribe: (listener: () => void) => () => void,
+    /**
+     * Returns the items of the list with the given key. The same array is returned as long as neither the list nor any of its items change
+     */
+    getList: (key: string) => T[],
+    setList: (key: string, items: T[]) => void,
+    getItem: (id: T["id"]) => T | null,
+    setItem: (item: T) => void,
+    /**
+     * Removes the item from the store and from every list containing it
+     */
+    removeItem: (id: T["id"]) => void,
+    /**
+     * Returns the time the request with the given key last loaded items from the backend
+     */
+    getLoadedAt: (key: string) => number | undefined,
+    setLoadedAt: (key: string, time: number) => void,
+    /**
+     * Runs the request unless an identical request is already in flight, in which case the running request is shared.
+     * The shared request is aborted once every caller has aborted
+     */
+    dedupe: <R>(key: string, signal: AbortSignal | undefined, request: (signal: AbortSignal) => Promise<R>) => Promise<R>
+}
+
+export function createEntityStore<T extends Resource>(uniqueIdentifierCallback: (item: T) => string): EntityStore<T> {
+    const entities = new Map<string, T>();
+    const keys = new Map<T["id"], string>();
+    const lists = new Map<string, string[]>();
+    const listCache = new Map<string, T[]>();
+    const listeners = new Set<() => void>();
+    const loadedAt = new Map<string, number>();
+    const inflight = new Map<string, {
+        promise: Promise<any>,
+        controller: AbortController,
+        callers: number
+    }>();
+
+    const notify = () => {
+        for (const listener of listeners) {
+            listener();
+        }
+    }
+
+    const invalidate = (changed: Set<string>) => {
+        for (const [listKey, list] of lists) {
+            if (list.some(key => changed.has(key))) {
+                listCache.delete(listKey);
+            }
+        }
+    }
+
+    const put = (item: T, changed: Set<string>) => {
+        const key = uniqueIdentifierCallback(item);
+        if (entities.get(key) !== item) {
+            entities.set(key, item);
+            keys.set(item.id, key);
+            changed.add(key);
+        }
+        return key;
+    }
+
+    return {
+        subscribe: listener => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            }
+        },
+        getList: key => {
+            const cached = listCache.get(key);
+            if (cached !== undefined) {
+                return cached;
+            }
+            const list = lists.get(key);
+            if (list === undefined) {
+                return emptyList;
+            }
+            const items = list.map(key => entities.get(key)).filter((item): item is T => item !== undefined);
+            listCache.set(key, items);
+            return items;
+        },
+        setList: (key, items) => {
+            const changed = new Set<string>();
+            const previous = lists.get(key);
+            const list = items.map(item => put(item, changed));
+            if (changed.size === 0 && previous?.length === list.length && previous.every((key, index) => key === list[index])) {
+                return;
+            }
+            lists.set(key, list);
+            listCache.delete(key);
+            invalidate(changed);
+            notify();
+        },
+        getItem: id => {
+            const key = keys.get(id);
+            return key === undefined ? null : entities.get(key) ?? null;
+        },
+        setItem: item => {
+            const changed = new Set<string>();
+            put(item, changed);
+            if (changed.size > 0) {
+                invalidate(changed);
+                notify();
+            }
+        },
+        removeItem: id => {
+            const key = keys.get(id);
+            if (key !== undefined) {
+                keys.delete(id);
+                entities.delete(key);
+                for (const [listKey, list] of lists) {
+                    if (list.includes(key)) {
+                        lists.set(listKey, list.filter(item => item !== key));
+                        listCache.delete(listKey);
+                    }
+                }
+                notify();
+            }
+        },
+        getLoadedAt: key => loadedAt.get(key),
+        setLoadedAt: (key, time) => {
+            loadedAt.set(key, time);
+        },
+        dedupe: (key, signal, request) => {
+            let entry = inflight.get(key);
+            if (entry === undefined) {
+                const controller = new AbortController();
+                const promise = request(controller.signal).finally(() => {
+                    if (inflight.get(key) === entry) {
+                        inflight.delete(key);
+                    }
+                });
+                entry = {promise, controller, callers: 0};
+                inflight.set(key, entry);
+            }
+            const current = entry;
+            current.callers++;
+            signal?.addEventListener("abort", () => {
+                if (--current.callers === 0) {
+                    current.controller.abort();
+                    if (inflight.get(key) === current) {
+                        inflight.delete(key);
+                    }
+                }
+            });
+            return current.promise;
+        }
+    }
+}
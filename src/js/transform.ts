@@ -0,0 +1,69 @@
+import { ActionHookReturn, CacheActionHookReturn, Delta, Mutation, Resource, ResourceResponse } from "./types";
+
+export interface Transforms {
+    /**
+     * Converts an item (or partial item) to the format sent to the adapter
+     */
+    serialize: (item: any) => any,
+    /**
+     * Converts an item (or partial item) received from the adapter to the format used by the hook
+     */
+    deserialize: (raw: any) => any
+}
+
+export const transformDelta = (delta: Delta<any>, transform: (item: any) => any): Delta<any> => {
+    switch (delta.action) {
+        case "store":
+            return {...delta, resource: transform(delta.resource)};
+        case "update":
+            return {...delta, update: transform(delta.update)};
+        default:
+            return delta;
+    }
+}
+
+const transformMutation = (mutation: Mutation<any>, transform: (item: any) => any): Mutation<any> => ({
+    ...mutation,
+    delta: transformDelta(mutation.delta, transform)
+});
+
+const transformResponse = <T extends Resource, U>(response: ResourceResponse<any, U>, deserialize: (raw: any) => any): ResourceResponse<T, U> => ({
+    ...response,
+    data: Array.isArray(response.data) ? response.data.map(deserialize) : response.data === null ? null : deserialize(response.data),
+    ...(response.deltas !== undefined && {deltas: response.deltas.map(delta => transformDelta(delta, deserialize))})
+});
+
+export function transformActions<RequestConfig, T extends Resource>(actions: ActionHookReturn<RequestConfig, T>, {serialize, deserialize}: Transforms): ActionHookReturn<RequestConfig, T> {
+    return {
+        store: async (resource, config) => deserialize(await actions.store(serialize(resource), config)),
+        batchStore: async (resources, config) => (await actions.batchStore(resources.map(serialize), config)).map(deserialize),
+        update: async (id, resource, config) => deserialize(await actions.update(id, serialize(resource), config)),
+        batchUpdate: async (resources, config) => (await actions.batchUpdate(resources.map(serialize), config)).map(deserialize),
+        destroy: actions.destroy,
+        batchDestroy: actions.batchDestroy,
+        refresh: async (id, config, signal, page, since) => transformResponse(await actions.refresh(id, config, signal, page, since), deserialize),
+        query: async (action, data, params, config) => {
+            const response = await actions.query(action, data, params, config);
+            return {...response, data: response.data.map(deserialize)};
+        },
+        addOfflineListener: actions.addOfflineListener
+    }
+}
+
+/**
+ * Cache adapters store items and queued mutations in the serialized format
+ */
+export function transformCacheActions<RequestConfig, T extends Resource>(actions: CacheActionHookReturn<RequestConfig, T>, transforms: Transforms): CacheActionHookReturn<RequestConfig, T> {
+    const {serialize, deserialize} = transforms;
+    return {
+        ...actions,
+        ...transformActions(actions, transforms),
+        getCache: async () => (await actions.getCache()).map(entry => ({
+            ...entry,
+            local: entry.local === null ? null : deserialize(entry.local),
+            ...(entry.remote !== undefined && {remote: entry.remote === null ? null : deserialize(entry.remote)})
+        })),
+        getOutbox: actions.getOutbox && (async () => (await actions.getOutbox!()).map(mutation => transformMutation(mutation, deserialize))),
+        putOutbox: actions.putOutbox && (mutation => actions.putOutbox!(transformMutation(mutation, serialize)))
+    }
+}
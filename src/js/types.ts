@@ -10,7 +10,15 @@ export interface Options<RequestConfig, CacheRequestConfig> {
     cache?: {
         enabled?: boolean,
         config?: CacheRequestConfig
-    }
+    },
+    /**
+     * Whether to record the mutation in the history if enabled. Defaults to true
+     */
+    history?: boolean,
+    /**
+     * Retry policy for this request. Overrides the policy of the resource. Pass false to disable retries
+     */
+    retry?: RetryPolicy | false
 }
 
 export interface RefreshOptions<RequestConfig, CacheRequestConfig> {
@@ -20,7 +28,61 @@ export interface RefreshOptions<RequestConfig, CacheRequestConfig> {
         config?: CacheRequestConfig,
         preferOffline?: boolean
     },
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    /**
+     * Keep the current items while refreshing. Only 'isValidating' will be set instead of 'loading'
+     */
+    revalidate?: boolean,
+    /**
+     * Retry policy for this refresh. Overrides the policy of the resource. Pass false to disable retries
+     */
+    retry?: RetryPolicy | false
+}
+
+export interface RetryPolicy {
+    /**
+     * Maximum number of attempts including the first one. Defaults to 3
+     */
+    maxAttempts?: number,
+    /**
+     * Delay in ms before the first retry. Doubled for every further attempt. Defaults to 1000
+     */
+    delay?: number,
+    /**
+     * Upper bound for the delay in ms. Defaults to 30000
+     */
+    maxDelay?: number,
+    /**
+     * Fraction by which the delay is randomly reduced, so clients failing at the same time don't retry at the same time. Defaults to 0.5
+     */
+    jitter?: number,
+    /**
+     * Whether the request should be retried after the given error. By default, timeouts and 408, 429 and 5xx responses are retried.
+     * OfflineErrors are never retried, since they are handled by the cache instead
+     * @param error The error the last attempt failed with
+     * @param attempt The number of attempts made so far
+     */
+    retryable?: (error: unknown, attempt: number) => boolean
+}
+
+export interface RevalidateOptions {
+    /**
+     * Time in ms for which loaded items are considered fresh. Fresh items are served without sending a request when a hook is mounted.
+     * Stale items are served immediately while being revalidated in the background. Defaults to 0
+     */
+    staleTime?: number,
+    /**
+     * Revalidate stale items when the window regains focus. Defaults to false
+     */
+    onFocus?: boolean,
+    /**
+     * Revalidate stale items when the document becomes visible again. Defaults to false
+     */
+    onVisibilityChange?: boolean,
+    /**
+     * Revalidate when the adapter reports being back online. Defaults to true
+     */
+    onReconnect?: boolean
 }
 
 export interface Conflict<T extends Resource> {
@@ -34,6 +96,10 @@ export interface ReturnCommon<RequestConfig, CacheRequestConfig, T extends Resou
      * Whether the current resource is still being fetched after initial render or parameter change
      */
     loading: boolean,
+    /**
+     * Whether any refresh is currently in progress, including background revalidations of already loaded items
+     */
+    isValidating: boolean,
     /**
      * Stores a new item in the current resource
      * @param item The item to be stored
@@ -42,6 +108,7 @@ export interface ReturnCommon<RequestConfig, CacheRequestConfig, T extends Resou
      *      The frontend will be updated using the data from the backends response (which might be different from the data sent in the request)
      *  'immediate' will update the resource in the frontend immediately while also sending the request to the backend. The frontend will be updated using
      *      only the data provided in the request, but the response will update the item again once the requests succeeeds
+     *      Until then, the item has a temporary id (see resolveId)
      *  'local-only' will only update the frontend with the values provided, without sending any request to the backend
      * @param config A RequestConfig may be passed to be used for the request (structure is determined by adapter)
      * @returns The created resource.
@@ -76,7 +143,83 @@ export interface ReturnCommon<RequestConfig, CacheRequestConfig, T extends Resou
     /**
      * Error that occured during last auto-refresh. null if no error occured or refresh is still in progress
      */
-    error: Error | null
+    error: Error | null,
+    /**
+     * Number of retries of the request currently being retried. 0 if no request is being retried
+     */
+    retryCount: number,
+    /**
+     * Timestamp in ms of the next retry. null if no retry is scheduled
+     */
+    nextRetryAt: number | null,
+    /**
+     * Conflicts between local (cached) and remote changes that could not be resolved automatically during the last refresh
+     */
+    conflicts: Conflict<T>[],
+    /**
+     * Manually resolves a conflict by writing the chosen version to both the remote and the cache and marking it as synced.
+     * @param id The id of the conflict (as returned by uniqueIdentifierCallback)
+     * @param resolution The version to keep. null if the item should be destroyed
+     * @param config A RequestConfig may be passed to be used for the remote request (structure is determined by adapter)
+     * @param cacheConfig A CacheRequestConfig may be passed to be used for the cache request (structure is determined by cache adapter)
+     * @returns A void promise that resolves once both remote and cache have been written
+     */
+    resolveConflict: (id: string, resolution: T | null, config?: RequestConfig, cacheConfig?: CacheRequestConfig) => Promise<void>,
+    /**
+     * Number of mutations made while offline that are still waiting to be sent to the backend
+     */
+    pendingMutations: number,
+    /**
+     * Mutations that have failed too often and will no longer be replayed automatically
+     */
+    deadMutations: Mutation<T>[],
+    /**
+     * Resets the attempts of a dead mutation and replays the outbox
+     * @param key The key of the mutation
+     * @returns A void promise that resolves once the replay is complete
+     */
+    retryMutation: (key: string) => Promise<void>,
+    /**
+     * Removes a mutation from the outbox without sending it to the backend.
+     * The local change remains in the cache and will be reconciled during the next refresh.
+     * @param key The key of the mutation
+     * @returns A void promise that resolves once the mutation has been removed
+     */
+    discardMutation: (key: string) => Promise<void>,
+    /**
+     * Ids of all items with an update or destroy request currently in flight
+     */
+    pending: Set<T["id"]>,
+    /**
+     * Whether an update or destroy request for the given item is currently in flight
+     */
+    isPending: (id: T["id"]) => boolean,
+    /**
+     * Returns the error the last update or destroy request for the given item failed with. null if it succeeded or is still in flight
+     */
+    getError: (id: T["id"]) => Error | null,
+    /**
+     * Returns the id assigned by the backend for the temporary id of an optimistically stored item.
+     * Returns the given id if it is not temporary or the backend has not responded yet. Actions called with a temporary id are re-targeted automatically
+     */
+    resolveId: (id: T["id"]) => T["id"],
+    /**
+     * Reverts the last recorded mutation by sending its inverse to the backend. Requires the 'history' option
+     * @returns A void promise that resolves once the inverse mutation is complete
+     */
+    undo: () => Promise<void>,
+    /**
+     * Applies the last undone mutation again. Requires the 'history' option
+     * @returns A void promise that resolves once the mutation is complete
+     */
+    redo: () => Promise<void>,
+    canUndo: boolean,
+    canRedo: boolean
+}
+
+export interface HistoryEntry<T extends Resource> {
+    deltas: Delta<T>[],
+    inverse: Delta<T>[]
 }
 
 export interface ReturnList<RequestConfig, CacheRequestConfig, T extends Resource, U, V> extends ReturnCommon<RequestConfig, CacheRequestConfig, T, U> {
@@ -118,9 +261,22 @@ export interface ReturnList<RequestConfig, CacheRequestConfig, T extends Resourc
      */
     batchDestroy: (ids: T["id"][], options?: Options<RequestConfig, CacheRequestConfig>) => Promise<void>,
     /**
-     * Metadata returned from the initial get request.
+     * Metadata returned from the initial get request (or the last loaded page if the resource is paginated).
      */
-    meta: V | null
+    meta: V | null,
+    /**
+     * Loads the next page and merges it into the current items. Only has an effect if the 'paginate' option is set
+     * @returns A void promise that resolves once the page has been loaded
+     */
+    loadMore: () => Promise<void>,
+    /**
+     * Whether there are more pages that can be loaded using 'loadMore'
+     */
+    hasMore: boolean,
+    /**
+     * Whether a page is currently being loaded using 'loadMore'
+     */
+    loadingMore: boolean
 }
 
 export interface ReturnSingle<RequestConfig, CacheRequestConfig, T extends Resource, U = T> extends ReturnCommon<RequestConfig, CacheRequestConfig, T, U> {
@@ -160,6 +316,7 @@ export type Param = string | number | boolean | null | undefined;
 export type OnCreatedListener<T extends Resource> = (item: T) => boolean | void;
 export type OnUpdatedListener<T extends Resource> = (item: DeepPartial<T>) => boolean | void;
 export type OnDestroyedListener<T extends Resource> = (item: T["id"]) => boolean | void
+export type OnRollbackListener<T extends Resource> = (deltas: Delta<T>[], error: unknown) => void
 
 export interface OptionsCommon<T extends Resource, U> {
     /**
@@ -176,20 +333,49 @@ export interface OptionsCommon<T extends Resource, U> {
      * @param id The id of the item that has been destroyed
      */
     onDestroyed?: OnDestroyedListener<T>,
+    /**
+     * Called every time an 'immediate' update is reverted because the request to the backend failed
+     * @param deltas The deltas that have been applied to revert the update
+     * @param error The error the request failed with
+     */
+    onRollback?: OnRollbackListener<T>,
     /**
      * Whether to automatically refresh the resource when the configuration of the hook changes.
      */
     autoRefresh?: boolean,
+    /**
+     * When to revalidate loaded items. Overrides the options passed to the factory
+     */
+    revalidate?: RevalidateOptions,
+    /**
+     * Interval in ms in which the resource is polled for changes. Useful for backends without socket events.
+     * Changes are applied as if the respective socket events had been received. Polling is paused while the document is hidden or the adapter reports being offline.
+     * For paginated resources, only the first page is polled and items missing from it are not considered destroyed
+     */
+    pollInterval?: number,
+    /**
+     * Record all mutations made using this hook to allow undo and redo. Has no effect when using a ResourceProvider (set it on the provider instead)
+     */
+    history?: boolean | {
+        /**
+         * Maximum number of recorded mutations. Defaults to 100
+         */
+        limit?: number
+    },
     ignoreContext?: boolean
 }
 
-export interface OptionsList<T extends Resource, U> extends OptionsCommon<T, U> {
+export interface OptionsList<T extends Resource, U, V = null> extends OptionsCommon<T, U> {
     /**
      * Called every time a new item is created for the current resource (either using the 'store' method or by receiving the respective socket event)
      * @param item The item that has been created (already transformed)
      */
     onCreated?: OnCreatedListener<T>,
-    sorter?(a: T, b: T): number
+    sorter?(a: T, b: T): number,
+    /**
+     * Load the resource in pages instead of all at once. Further pages are loaded using 'loadMore'
+     */
+    paginate?: Paginate<T, V>
 }
 
 export interface OptionsSingle<T extends Resource, U> extends OptionsCommon<T, U> {
@@ -199,10 +385,54 @@ export interface OptionsSingle<T extends Resource, U> extends OptionsCommon<T, U
     id: T["id"] | null,
 }
 
-export interface OptionsImplementation<T extends Resource, U> extends OptionsCommon<T, U> {
+export interface OptionsImplementation<T extends Resource, U, V> extends OptionsCommon<T, U> {
     id?: T["id"] | null,
-    onCreated?: OptionsList<T, U>["onCreated"],
-    sorter?: OptionsList<T, U>["sorter"]
+    onCreated?: OptionsList<T, U, V>["onCreated"],
+    sorter?: OptionsList<T, U, V>["sorter"],
+    paginate?: OptionsList<T, U, V>["paginate"]
+}
+
+export type Paginate<T extends Resource, V> = {
+    type: "cursor",
+    /**
+     * Number of items per page. Passed to the adapter, which may ignore it if the page size is determined by the backend
+     */
+    limit?: number,
+    /**
+     * Extracts the cursor of the next page from a loaded page
+     * @returns The cursor of the next page or null if the last page has been loaded
+     */
+    cursor: (meta: V, data: T[]) => string | number | null
+} | {
+    type: "page" | "offset",
+    /**
+     * Number of items per page
+     */
+    limit: number,
+    /**
+     * Determines whether there are more pages after a loaded page. By default, more pages are assumed as long as full pages are returned
+     */
+    hasMore?: (meta: V, data: T[]) => boolean
+}
+
+export type PageRequest = {
+    type: "cursor",
+    /**
+     * null for the first page
+     */
+    cursor: string | number | null,
+    limit?: number
+} | {
+    type: "page",
+    /**
+     * 1-based
+     */
+    page: number,
+    limit: number
+} | {
+    type: "offset",
+    offset: number,
+    limit: number
 }
 
 export type MaybePromise<T> = Promise<T> | T
@@ -210,9 +440,19 @@ export type MaybePromise<T> = Promise<T> | T
 export type ResourceResponse<T extends Resource, U> = {
     data: T[] | T | null,
     meta: U,
-    error: Error | null
+    error: Error | null,
+    /**
+     * Changes since the cursor passed to refresh. If set, 'data' is ignored
+     */
+    deltas?: Delta<T>[],
+    /**
+     * Cursor to be passed to the next incremental refresh
+     */
+    cursor?: SyncCursor
 }
 
+export type SyncCursor = string | number;
+
 export interface ResourceQueryResponse<T extends Resource> {
     data: T[],
     update: "merge" | "replace",
@@ -226,7 +466,12 @@ export interface ActionHookReturn<RequestConfig, T extends Resource> {
     batchUpdate: (resources: any[], config: RequestConfig | undefined) => MaybePromise<DeepPartial<T>[]>,
     destroy: (id: Resource["id"], config: RequestConfig | undefined) => MaybePromise<void>,
     batchDestroy: (ids: Resource["id"][], config: RequestConfig | undefined) => MaybePromise<void>,
-    refresh: <U = null>(id?: Resource["id"], config?: RequestConfig, signal?: AbortSignal) => MaybePromise<ResourceResponse<T, U>>,
+    /**
+     * Loads the resource
+     * @param since If set, only the changes since the given cursor should be returned as 'deltas'. Adapters that don't support incremental refreshes may ignore it.
+     *  A CursorExpiredError must be thrown if the changes since the cursor are no longer available
+     */
+    refresh: <U = null>(id?: Resource["id"], config?: RequestConfig, signal?: AbortSignal, page?: PageRequest, since?: SyncCursor) => MaybePromise<ResourceResponse<T, U>>,
     query: (action: string, data: any, params?: Params, config?: RequestConfig) => MaybePromise<ResourceQueryResponse<T>>,
     addOfflineListener: (listener: (offline: boolean) => void) => () => void
 }
@@ -237,7 +482,41 @@ export interface CacheActionHookReturn<RequestConfig, T extends Resource> extend
         id: T["id"],
         remote?: T | null,
         local: T | null
-    }[]>
+    }[]>,
+    /**
+     * Returns all queued mutations in the order they were first added. Required for the outbox
+     */
+    getOutbox?: () => MaybePromise<Mutation<T>[]>,
+    /**
+     * Adds a mutation to the end of the outbox or replaces the mutation with the same key in place. Required for the outbox
+     */
+    putOutbox?: (mutation: Mutation<T>) => MaybePromise<void>,
+    /**
+     * Removes the mutation with the given key from the outbox. Required for the outbox
+     */
+    removeOutbox?: (key: string) => MaybePromise<void>,
+    /**
+     * Returns the cursor of the last incremental refresh. Required for incremental refreshes
+     */
+    getCursor?: () => MaybePromise<SyncCursor | null>,
+    /**
+     * Stores the cursor of the last incremental refresh. null if the cursor has expired. Required for incremental refreshes
+     */
+    putCursor?: (cursor: SyncCursor | null) => MaybePromise<void>
+}
+
+export interface Mutation<T extends Resource> {
+    key: string,
+    delta: Delta<T>,
+    /**
+     * Number of failed attempts to send the mutation to the backend
+     */
+    attempts: number,
+    /**
+     * Whether the mutation exceeded the maximum number of attempts and will no longer be replayed
+     */
+    dead: boolean,
+    error?: string
 }
 
 export type Delta<T extends Resource> = {
@@ -255,9 +534,16 @@ export type Delta<T extends Resource> = {
 
 export type ResourceBackendAdapter<ResourceConfig extends {}, UseConfig extends {}, RequestConfig> = (resource: string, config: Partial<ResourceConfig>) => {
     actionHook: <T extends Resource>(config: Partial<UseConfig>, params?: Params) => ActionHookReturn<RequestConfig, T>,
-    eventHook: <T extends Resource | Resource["id"]>(params: Params | undefined, event: "created" | "updated" | "destroyed", handler: (payload: T) => void, enabled: boolean, dependencies?: React.DependencyList) => void
+    eventHook: <T extends Resource | Resource["id"]>(params: Params | undefined, event: "created" | "updated" | "destroyed", handler: (payload: T) => void, enabled: boolean, dependencies?: React.DependencyList) => void,
+    /**
+     * Extracts a version (e.g. an update timestamp) from an item or event payload. Events received during a refresh
+     * are discarded if they are not newer than the respective item in the refresh response
+     */
+    getVersion?: (item: any) => Version
 }
 
+export type Version = string | number | null | undefined;
+
 export type CacheResourceBackendAdapter<ResourceConfig extends {}, UseConfig extends {}, RequestConfig> = (resource: string, config: Partial<ResourceConfig>, cache?: true) => {
     actionHook: <T extends Resource>(config: Partial<UseConfig>, params?: Params) => CacheActionHookReturn<RequestConfig, T>,
     eventHook: <T extends Resource | Resource["id"]>(params: Params | undefined, event: "created" | "updated" | "destroyed", handler: (payload: T) => void, enabled: boolean, dependencies?: React.DependencyList) => void
@@ -1,16 +1,38 @@
 import compare from "@enymo/comparison";
 import { DeepPartial } from "ts-essentials";
-import { Delta, Resource } from "./types";
+import { Delta, PageRequest, Paginate, Param, Params, Resource, Version } from "./types";
 
 function isAtomic(input: any) {
     return (
-        input instanceof File
+        (typeof File !== "undefined" && input instanceof File)
+        || input instanceof Date
         || input === null
         || typeof input !== "object"
     )
 }
 
-export function deepEquals(a: any, b: any, equalityCallback: (a: any, b: any) => boolean = (a, b) => a === b) {
+function atomicEquals(a: any, b: any) {
+    return a === b || (a instanceof Date && b instanceof Date && a.getTime() === b.getTime());
+}
+
+let keyCounter = 0;
+
+export function uniqueKey() {
+    return `${Date.now().toString(36)}-${(keyCounter++).toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createTemporaryId() {
+    return `tmp-${uniqueKey()}`;
+}
+
+/**
+ * Whether the id has been assigned by the client to an item that has not yet been stored by the backend
+ */
+export function isTemporaryId(id: Resource["id"]) {
+    return typeof id === "string" && id.startsWith("tmp-");
+}
+
+export function deepEquals(a: any, b: any, equalityCallback: (a: any, b: any) => boolean = atomicEquals) {
     if (isAtomic(a) && isAtomic(b)) {
         return equalityCallback(a, b);
     }
@@ -18,11 +40,11 @@ export function deepEquals(a: any, b: any, equalityCallback: (a: any, b: any) =>
         const keys = new Set<string | number>();
         for (const [key, value] of Array.isArray(a) ? a.entries() : Object.entries(a)) {
             keys.add(key);
-            if (!deepEquals(value, b[key])) return false;
+            if (!deepEquals(value, b[key], equalityCallback)) return false;
         }
         for (const [key, value] of Array.isArray(b) ? b.entries() : Object.entries(b)) {
             if (!keys.has(key)) {
-                if (!deepEquals(value, a[key])) return false;
+                if (!deepEquals(value, a[key], equalityCallback)) return false;
             }
         }
         return true;
@@ -39,9 +61,16 @@ function pruneUnchangedRecursive(input: any, comparison: any, target: any, ignor
                 target[key] = value;
             }
         }
+        else if (isAtomic(comparison[key]) || Array.isArray(comparison[key])) {
+            target[key] = value;
+        }
         else {
-            target[key] = {};
-            pruneUnchangedRecursive(value, comparison[key], target[key]);
+            // Nested objects without changes are omitted instead of being sent as empty objects
+            const nested = {};
+            pruneUnchangedRecursive(value, comparison[key], nested);
+            if (Object.keys(nested).length > 0) {
+                target[key] = nested;
+            }
         }
     }
 }
@@ -52,7 +81,7 @@ export function pruneUnchanged<T>(input: object, comparison: object, ignoreKeys:
     return target as DeepPartial<T>;
 }
 
-export function resolveDeltas<T extends Resource, U extends T | T[]>(input: U, ...deltas: Delta<T>[]): U extends T[] ? U : U | null {
+export function resolveDeltas<T extends Resource, U extends T | T[] | null>(input: U, ...deltas: Delta<T>[]): U extends T[] ? U : T | null {
     if (Array.isArray(input)) {
         const map = new Map(input.map(item => [item.id, item]));
 
@@ -62,10 +91,12 @@ export function resolveDeltas<T extends Resource, U extends T | T[]>(input: U, .
                     map.set(delta.resource.id, delta.resource);
                     break;
                 case "update":
-                    map.set(delta.id, {
-                        ...map.get(delta.id),
-                        ...delta.update
-                    } as T);
+                    if (map.has(delta.id)) {
+                        map.set(delta.id, {
+                            ...map.get(delta.id),
+                            ...delta.update
+                        } as T);
+                    }
                     break;
                 case "destroy":
                     map.delete(delta.id);
@@ -73,11 +104,14 @@ export function resolveDeltas<T extends Resource, U extends T | T[]>(input: U, .
             }
         }
 
-        return [...map.values()] as U extends T[] ? U : U | null;
+        return [...map.values()] as U extends T[] ? U : T | null;
     }
     else {
         return deltas.reduce<T | null>((item, delta) => {
-            if (item !== null && delta.id === item.id) {
+            if (delta.action === "store" && (item === null || delta.id === item.id)) {
+                return delta.resource;
+            }
+            else if (item !== null && delta.id === item.id) {
                 if (delta.action === "update") {
                     return {
                         ...item,
@@ -89,17 +123,48 @@ export function resolveDeltas<T extends Resource, U extends T | T[]>(input: U, .
                 }
             }
             return item;
-        }, input as unknown as T) as U extends T[] ? U : U | null
+        }, input as T | null) as U extends T[] ? U : T | null
     }
 }
 
+function matchesParam(value: any, param: Param | Param[] | Params): boolean {
+    if (Array.isArray(param)) {
+        return param.some(param => matchesParam(value, param));
+    }
+    if (param !== null && typeof param === "object") {
+        return value === null || typeof value !== "object" || Object.entries(param).every(([key, param]) => !(key in value) || matchesParam(value[key], param));
+    }
+    // Params are often serialized as strings, so loose equality is used
+    return param === undefined || (value !== null && typeof value === "object") || value == param;
+}
+
+/**
+ * Default membership check for items received through events. Compares every param to the item field with the same name.
+ * Params without a corresponding field (e.g. path parameters or sorting options) and object fields compared to scalar params are ignored
+ */
+export function matchesParams(item: Resource, params: Params | undefined) {
+    return Object.entries(params ?? {}).every(([key, param]) => !(key in item) || matchesParam((item as any)[key], param));
+}
+
+export function discardOutdated<T extends Resource>(deltas: Delta<T>[], data: T[] | T, getVersion: (item: any) => Version): Delta<T>[] {
+    const versions = new Map((Array.isArray(data) ? data : [data]).map(item => [item.id, getVersion(item)]));
+    return deltas.filter(delta => {
+        if (delta.action === "destroy") {
+            return true;
+        }
+        const version = getVersion(delta.action === "store" ? delta.resource : delta.update);
+        const current = versions.get(delta.id);
+        return version === null || version === undefined || current === null || current === undefined || version > current;
+    });
+}
+
 export function findChangedPathsRecursive(a: any, b: any): string[] {
     const result: string[] = [];
     const keys = new Set<string | number>();
     for (const [key, value] of Array.isArray(a) ? a.entries() : Object.entries(a)) {
         keys.add(key);
         if (isAtomic(value) || isAtomic(b[key]) || Array.isArray(value) !== Array.isArray(b[key])) {
-            if (value !== b[key]) {
+            if (!atomicEquals(value, b[key])) {
                 result.push(key.toString());
             }
         }
@@ -109,8 +174,8 @@ export function findChangedPathsRecursive(a: any, b: any): string[] {
     }
     for (const [key, value] of Array.isArray(b) ? b.entries() : Object.entries(b)) {
         if (!keys.has(key)) {
-            if (isAtomic(value) || isAtomic(a[key]) || Array.isArray(value) !== Array.isArray(b[key])) {
-                if (value !== a[key]) {
+            if (isAtomic(value) || isAtomic(a[key]) || Array.isArray(value) !== Array.isArray(a[key])) {
+                if (!atomicEquals(value, a[key])) {
                     result.push(key.toString());
                 }
             }
@@ -152,4 +217,32 @@ export function diff<T extends Resource>(local: T[], remote: T[]) {
     }
 
     return {created, updated, destroyed};
+}
+
+export function firstPage<T extends Resource, V>(paginate: Paginate<T, V>): PageRequest {
+    switch (paginate.type) {
+        case "cursor":
+            return {type: "cursor", cursor: null, limit: paginate.limit};
+        case "page":
+            return {type: "page", page: 1, limit: paginate.limit};
+        case "offset":
+            return {type: "offset", offset: 0, limit: paginate.limit};
+    }
+}
+
+export function nextPage<T extends Resource, V>(paginate: Paginate<T, V>, page: PageRequest, meta: V, data: T[]): PageRequest | null {
+    if (paginate.type === "cursor") {
+        const cursor = paginate.cursor(meta, data);
+        return cursor === null ? null : {type: "cursor", cursor, limit: paginate.limit};
+    }
+    else if (!(paginate.hasMore?.(meta, data) ?? data.length >= paginate.limit)) {
+        return null;
+    }
+    else if (page.type === "page") {
+        return {type: "page", page: page.page + 1, limit: paginate.limit};
+    }
+    else if (page.type === "offset") {
+        return {type: "offset", offset: page.offset + data.length, limit: paginate.limit};
+    }
+    return null;
 }
\ No newline at end of file
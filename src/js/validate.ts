@@ -0,0 +1,156 @@
+import { DeepPartial } from "ts-essentials";
+import { ValidationError } from "./errors";
+import { ActionHookReturn, Delta, PageRequest, Resource, ResourceResponse, SyncCursor } from "./types";
+
+declare const process: {env: {[key: string]: string | undefined}} | undefined;
+
+/**
+ * Any validator with a zod-like 'safeParse' or 'parse' method. The parsed value is used in place of the received one
+ */
+export type Schema<T> = {
+    safeParse: (input: unknown) => {success: true, data: T} | {success: false, error: unknown}
+} | {
+    parse: (input: unknown) => T
+}
+
+/**
+ * How to handle items failing validation. The failure is reported through 'error' in every case
+ *  'drop' ignores the item
+ *  'warn' keeps the item as received
+ *  'fail' fails the whole request
+ */
+export type InvalidHandling = "drop" | "warn" | "fail";
+
+export interface Validation {
+    /**
+     * Validates a single item against the schema (or the partial schema)
+     * @returns Whether to keep the item, the item to keep and the error if the item is invalid
+     * @throws ValidationError if the item is invalid and 'onInvalid' is 'fail'
+     */
+    validate: <T>(item: T, path: string, partial?: boolean) => {keep: boolean, data: T, error: ValidationError | null},
+    /**
+     * Whether the item is a valid full item. Invalid items aren't reported
+     */
+    isValid: (item: unknown) => boolean
+}
+
+const isDevelopment = () => typeof process === "undefined" || process.env.NODE_ENV !== "production";
+
+const describe = (issues: unknown) => issues instanceof Error ? issues.message : JSON.stringify(issues);
+
+export function createValidation(resource: string, {schema, partialSchema, onInvalid}: {
+    schema: Schema<any>,
+    partialSchema?: Schema<any>,
+    onInvalid: InvalidHandling
+}): Validation {
+    const parse = (schema: Schema<any>, input: unknown): {success: true, data: any} | {success: false, error: unknown} => {
+        if ("safeParse" in schema) {
+            return schema.safeParse(input);
+        }
+        try {
+            return {success: true, data: schema.parse(input)};
+        }
+        catch (e) {
+            return {success: false, error: e};
+        }
+    }
+
+    return {
+        isValid: item => parse(schema, item).success,
+        validate: (item, path, partial = false) => {
+            const itemSchema = partial ? partialSchema : schema;
+            if (itemSchema === undefined) {
+                // Partial items are only validated if a partial schema is provided
+                return {keep: true, data: item, error: null};
+            }
+            const result = parse(itemSchema, item);
+            if (result.success) {
+                return {keep: true, data: result.data, error: null};
+            }
+            const development = isDevelopment();
+            const error = new ValidationError(resource, path, result.error, development ? `Invalid data received for resource '${resource}' at '${path}': ${describe(result.error)}` : "Invalid data received");
+            if (onInvalid === "fail") {
+                throw error;
+            }
+            if (development) {
+                console.warn(error.message);
+            }
+            return {keep: onInvalid === "warn", data: item, error};
+        }
+    }
+}
+
+/**
+ * Validates all items received from the adapter.
+ * Invalid items in lists and deltas are dropped or kept depending on 'onInvalid'. The error is returned as the 'error' of the response.
+ * Invalid items returned by mutations fail the mutation unless 'onInvalid' is 'warn', in which case they are passed to 'report'
+ */
+export function validateActions<RequestConfig, T extends Resource>(actions: ActionHookReturn<RequestConfig, T>, {validate}: Validation, report: (error: ValidationError) => void): ActionHookReturn<RequestConfig, T> {
+    const validateItem = <I>(item: I, path: string, partial?: boolean) => {
+        const {keep, data, error} = validate(item, path, partial);
+        if (error !== null) {
+            if (!keep) {
+                throw error;
+            }
+            report(error);
+        }
+        return data;
+    }
+
+    const validateList = <I>(items: I[], path: string, errors: ValidationError[]) => items.flatMap((item, index) => {
+        const {keep, data, error} = validate(item, `${path}[${index}]`);
+        if (error !== null) {
+            errors.push(error);
+        }
+        return keep ? [data] : [];
+    });
+
+    const validateDeltas = (deltas: Delta<T>[], errors: ValidationError[]) => deltas.flatMap((delta, index): Delta<T>[] => {
+        if (delta.action === "destroy") {
+            return [delta];
+        }
+        const {keep, data, error} = delta.action === "store" ? validate(delta.resource, `deltas[${index}]`) : validate(delta.update, `deltas[${index}]`, true);
+        if (error !== null) {
+            errors.push(error);
+        }
+        return !keep ? [] : delta.action === "store" ? [{...delta, resource: data as T}] : [{...delta, update: data as DeepPartial<T>}];
+    });
+
+    return {
+        ...actions,
+        store: async (resource, config) => validateItem(await actions.store(resource, config), "store"),
+        batchStore: async (resources, config) => (await actions.batchStore(resources, config)).map((item, index) => validateItem(item, `batchStore[${index}]`)),
+        update: async (id, resource, config) => validateItem(await actions.update(id, resource, config), "update", true),
+        batchUpdate: async (resources, config) => (await actions.batchUpdate(resources, config)).map((item, index) => validateItem(item, `batchUpdate[${index}]`, true)),
+        refresh: async <U = null>(id?: Resource["id"], config?: RequestConfig, signal?: AbortSignal, page?: PageRequest, since?: SyncCursor): Promise<ResourceResponse<T, U>> => {
+            const response = await actions.refresh<U>(id, config, signal, page, since);
+            const errors: ValidationError[] = [];
+            let data = response.data;
+            if (Array.isArray(data)) {
+                data = validateList(data, "data", errors);
+            }
+            else if (data !== null) {
+                const result = validate(data, "data");
+                if (result.error !== null) {
+                    errors.push(result.error);
+                }
+                data = result.keep ? result.data : null;
+            }
+            return {
+                ...response,
+                data,
+                ...(response.deltas !== undefined && {deltas: validateDeltas(response.deltas, errors)}),
+                error: response.error ?? errors[0] ?? null
+            };
+        },
+        query: async (action, data, params, config) => {
+            const response = await actions.query(action, data, params, config);
+            const errors: ValidationError[] = [];
+            const validated = validateList(response.data, "data", errors);
+            if (errors.length > 0) {
+                report(errors[0]);
+            }
+            return {...response, data: validated};
+        }
+    }
+}